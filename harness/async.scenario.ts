@@ -0,0 +1,122 @@
+/*
+ * Tools with async hooks: input arriving while a hook is pending is queued,
+ * and each stroke still becomes exactly one undo step. Work that never
+ * finishes is given up on.
+ */
+import type { ToolScenario, PointerInput } from "./tool-harness.js";
+import { WatchdogError } from "../src/watchdog.js";
+
+/**
+ * Draws a line per stroke; the hooks named in `slow` wait a little (or with
+ * `hang`, forever) before they draw, and onPointerUp marks the end of the
+ * stroke with a dot.
+ */
+function asyncTool(
+  slow: Array<"onPointerDown" | "onPointerUp">,
+  { hang = false } = {}
+): string {
+  const wait = hang ? "" : "setTimeout(resolve, 5)";
+  return `
+const pause = () => new Promise((resolve) => { ${wait} });
+const slow = ${JSON.stringify(slow)};
+
+export default {
+  name: 'Async',
+  async onPointerDown(e) {
+    if (slow.includes('onPointerDown')) await pause();
+    this.path = new paper.Path({ strokeColor: 'black', strokeWidth: 2 });
+    this.path.add(e.point);
+  },
+  onPointerMove(e) {
+    this.path.add(e.point);
+  },
+  async onPointerUp(e) {
+    if (slow.includes('onPointerUp')) await pause();
+    new paper.Path.Circle({ center: e.point, radius: 4, fillColor: 'black' });
+    this.path = undefined;
+  },
+  onCancel() {
+    this.path = undefined;
+  }
+};`;
+}
+
+const first: PointerInput[] = [
+  { x: 40, y: 40 },
+  { x: 120, y: 80 },
+  { x: 200, y: 40 },
+];
+const second: PointerInput[] = [
+  { x: 40, y: 200 },
+  { x: 120, y: 240 },
+  { x: 200, y: 200 },
+];
+
+export default [
+  {
+    // The second stroke arrives while the first one's onPointerUp is still
+    // running. Undo must take back the whole second stroke and nothing else.
+    name: "queued-stroke-undo",
+    tool: asyncTool(["onPointerUp"]),
+    run: async (h) => {
+      h.stroke(first);
+      h.stroke(second);
+      await h.settle();
+      h.history.undo();
+    },
+  },
+  {
+    // Cancelled while onPointerDown was still pending: the queued moves run
+    // first, then the whole stroke is rolled back.
+    name: "cancel-while-pending",
+    tool: asyncTool(["onPointerDown"]),
+    run: async (h) => {
+      h.stroke(first);
+      await h.settle();
+      h.pointer("pointerdown", second[0]);
+      h.pointer("pointermove", second[1]);
+      h.pointer("pointercancel", second[1]);
+      await h.settle();
+    },
+  },
+  {
+    // onPointerUp never finishes: once the async budget is used up the tool
+    // is quarantined, the stroke keeps what it drew as one undo step and the
+    // input queued behind it is dropped.
+    name: "never-settles",
+    tool: asyncTool(["onPointerUp"], { hang: true }),
+    expectErrors: true,
+    run: async (h) => {
+      h.toolSystem.watchdog.asyncBudgetMs = 50;
+      h.stroke(first);
+      h.stroke(second);
+      await h.settle();
+      const error = h.toolSystem.getQuarantine("Async")?.error;
+      if (!(error instanceof WatchdogError)) {
+        throw new Error(`quarantined for ${error}, expected a WatchdogError`);
+      }
+      if (!h.history.canUndo()) throw new Error("undo group left open");
+
+      // Fixed code draws again, as its own undo step.
+      h.load(asyncTool(["onPointerUp"]));
+      h.stroke(second);
+      await h.settle();
+      h.history.undo();
+    },
+  },
+  {
+    // Replacing the tool gives up on its pending work right away.
+    name: "replaced-while-pending",
+    tool: asyncTool(["onPointerUp"], { hang: true }),
+    run: async (h) => {
+      h.stroke(first);
+      // Let the stroke get as far as the hanging onPointerUp.
+      await h.settle(20);
+      if (!h.toolSystem.isBusy("Async")) throw new Error("not busy");
+      h.load(asyncTool([]));
+      if (h.toolSystem.isBusy("Async")) throw new Error("still busy");
+      if (!h.history.canUndo()) throw new Error("undo group left open");
+      h.stroke(second);
+    },
+  },
+] satisfies ToolScenario[];
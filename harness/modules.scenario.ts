@@ -0,0 +1,131 @@
+/*
+ * Tool code written as ES modules: imports from the std library and from
+ * other tools ("user:…"), exports, and the errors for imports that can't
+ * be resolved.
+ */
+import type { ToolScenario, ToolHarness } from "./tool-harness.js";
+
+/** A helper tool other tools import from; it re-exports what it imported. */
+const SHAPES = `
+import { polygonPoints } from "std/geometry";
+import * as geometry from "std/geometry";
+
+export const SIDES = 5;
+
+export function polygon(center, radius, sides = SIDES) {
+  return new paper.Path({ segments: polygonPoints(center, radius, sides), closed: true });
+}
+
+export { geometry, polygonPoints as corners };
+
+export default { name: 'Shapes', onPointerDown() {} };
+`;
+
+/** Draws a polygon per stroke with the helpers of SHAPES. */
+const POLYGONS = `
+import { primaryColor, secondaryColor } from "std";
+import {
+  polygon,
+  SIDES as sides,
+  geometry,
+} from "user:shapes";
+import Shapes from "user:shapes";
+
+export default {
+  name: 'Polygons',
+  onPointerDown(e) {
+    this.start = e.point;
+  },
+  onPointerUp(e) {
+    const radius = geometry.distance(this.start, e.point);
+    const shape = polygon(this.start, radius, Shapes.name === 'Shapes' ? sides : 3);
+    shape.fillColor = secondaryColor();
+    shape.strokeColor = primaryColor();
+  }
+};
+`;
+
+/** Marks the polygon's corners, imported under another name, with dots. */
+const CORNERS = `
+import { corners } from "user:shapes";
+import { snapToGrid } from "std/snap";
+
+export default {
+  name: 'Corners',
+  onPointerUp(e) {
+    const center = snapToGrid(e.point, 50);
+    corners(center, 40, 6).forEach((point) =>
+      new paper.Path.Circle({ center: point, radius: 3, fillColor: 'black' })
+    );
+  }
+};
+`;
+
+/** Fail unless loading `code` throws an error whose message has `expected`. */
+function expectLoadError(h: ToolHarness, code: string, expected: string): void {
+  try {
+    h.load(code);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (message.includes(expected)) return;
+    throw new Error(`load failed with "${message}", expected "${expected}"`);
+  }
+  throw new Error(`load succeeded, expected "${expected}"`);
+}
+
+export default [
+  {
+    name: "std-and-user-imports",
+    tool: POLYGONS,
+    options: { modules: { "user:shapes": SHAPES } },
+    run: (h) =>
+      h.stroke([
+        { x: 120, y: 150 },
+        { x: 180, y: 150 },
+      ]),
+  },
+  {
+    name: "re-exported-import",
+    tool: CORNERS,
+    options: { modules: { "user:shapes": SHAPES } },
+    run: (h) => h.stroke([{ x: 190, y: 160 }]),
+  },
+  {
+    // A failed load leaves the previous tool in place.
+    name: "circular-import",
+    tool: CORNERS,
+    options: {
+      modules: {
+        "user:shapes": SHAPES,
+        "user:a": `import "user:b";\nexport default { name: 'A' };`,
+        "user:b": `import "user:a";\nexport default { name: 'B' };`,
+      },
+    },
+    run: (h) => {
+      expectLoadError(
+        h,
+        `import "user:a";\nexport default { name: 'Cycle' };`,
+        'Circular import of "user:a"'
+      );
+      h.stroke([{ x: 190, y: 160 }]);
+    },
+  },
+  {
+    name: "unknown-module",
+    tool: CORNERS,
+    options: { modules: { "user:shapes": SHAPES } },
+    run: (h) => {
+      expectLoadError(
+        h,
+        `import { lerp } from "std/geometri";\nexport default { name: 'Typo' };`,
+        'Unknown module "std/geometri"'
+      );
+      expectLoadError(
+        h,
+        `import { lerp } from "user:missing";\nexport default { name: 'Gone' };`,
+        'Tool "user:missing" not found'
+      );
+      h.stroke([{ x: 190, y: 160 }]);
+    },
+  },
+] satisfies ToolScenario[];
@@ -0,0 +1,151 @@
+/*
+ * OverlayStub – stands in for OverlayCanvas in the harness.
+ *
+ * Node has neither a raster canvas nor Potrace, so the overlay's 2D context
+ * only records the brush marks and traceToPaper() turns them into Paper
+ * items directly: filled arcs become circles, stroked lines become round
+ * capped paths. That keeps raster tools like the Pixel Brush testable; the
+ * shapes differ from a real trace but follow the same input.
+ */
+
+interface PathStep {
+  op: "move" | "line" | "arc";
+  x: number;
+  y: number;
+  r?: number;
+}
+
+interface Mark {
+  kind: "dot" | "line";
+  points: Array<{ x: number; y: number }>;
+  radius: number;
+  color: string;
+}
+
+/** The subset of CanvasRenderingContext2D the raster templates use. */
+class RecordingContext {
+  strokeStyle = "#000000";
+  fillStyle = "#000000";
+  lineWidth = 1;
+  lineCap = "butt";
+  lineJoin = "miter";
+  imageSmoothingEnabled = true;
+  readonly marks: Mark[] = [];
+  private path: PathStep[] = [];
+
+  beginPath(): void {
+    this.path = [];
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push({ op: "move", x, y });
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path.push({ op: "line", x, y });
+  }
+
+  arc(x: number, y: number, r: number): void {
+    this.path.push({ op: "arc", x, y, r });
+  }
+
+  fill(): void {
+    for (const step of this.path) {
+      if (step.op !== "arc") continue;
+      this.marks.push({
+        kind: "dot",
+        points: [{ x: step.x, y: step.y }],
+        radius: step.r ?? 0,
+        color: this.fillStyle,
+      });
+    }
+  }
+
+  stroke(): void {
+    const points = this.path
+      .filter((step) => step.op !== "arc")
+      .map(({ x, y }) => ({ x, y }));
+    if (points.length < 2) return;
+    this.marks.push({
+      kind: "line",
+      points,
+      radius: this.lineWidth / 2,
+      color: this.strokeStyle,
+    });
+  }
+
+  clearRect(): void {
+    this.marks.length = 0;
+  }
+}
+
+export class OverlayStub {
+  private ctx: RecordingContext | null = null;
+  private scale: number;
+
+  constructor(scale: number = 0.25) {
+    this.scale = scale;
+  }
+
+  create(): RecordingContext {
+    this.ctx = new RecordingContext();
+    return this.ctx;
+  }
+
+  paperToOverlay(point: { x: number; y: number }): { x: number; y: number } {
+    const paper = (globalThis as any).window.paper;
+    const viewPoint = paper.view.projectToView(
+      new paper.Point(point.x, point.y)
+    );
+    return { x: viewPoint.x * this.scale, y: viewPoint.y * this.scale };
+  }
+
+  getContext(): RecordingContext | null {
+    return this.ctx;
+  }
+
+  getScale(): number {
+    return this.scale;
+  }
+
+  clear(): void {
+    this.ctx?.clearRect();
+  }
+
+  /** Turn the recorded marks into one Paper group, like an imported trace. */
+  async traceToPaper(): Promise<any> {
+    const marks = this.ctx?.marks ?? [];
+    if (marks.length === 0) return null;
+
+    const paper = (globalThis as any).window.paper;
+    const view = paper.view;
+    // Overlay pixels → view → project coordinates (undo pan / zoom).
+    const toProject = (p: { x: number; y: number }) =>
+      view.viewToProject(new paper.Point(p.x / this.scale, p.y / this.scale));
+    const size = (overlayPx: number) => overlayPx / this.scale / view.zoom;
+
+    const group = new paper.Group(
+      marks.map((mark) =>
+        mark.kind === "dot"
+          ? new paper.Path.Circle({
+              center: toProject(mark.points[0]),
+              radius: size(mark.radius),
+              fillColor: mark.color,
+            })
+          : new paper.Path({
+              segments: mark.points.map(toProject),
+              strokeColor: mark.color,
+              strokeWidth: size(mark.radius * 2),
+              strokeCap: "round",
+              strokeJoin: "round",
+            })
+      )
+    );
+    this.clear();
+    return group;
+  }
+
+  destroy(): void {
+    this.ctx = null;
+  }
+}
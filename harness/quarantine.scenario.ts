@@ -0,0 +1,136 @@
+/*
+ * Tools that keep throwing, or hang, are quarantined: taken out of service
+ * until new code for them is registered.
+ */
+import type {
+  ToolScenario,
+  PointerInput,
+  ToolHarness,
+} from "./tool-harness.js";
+import { WatchdogError } from "../src/watchdog.js";
+import { WorkingCode } from "../src/working-code.js";
+
+/** Draws a line per stroke; with `broken` each onPointerMove throws. */
+function lineTool(broken: boolean): string {
+  return `
+export default {
+  name: 'Flaky',
+  onPointerDown(e) {
+    this.path = new paper.Path({ strokeColor: 'black', strokeWidth: 2 });
+    this.path.add(e.point);
+  },
+  onPointerMove(e) {
+    if (${broken}) throw new Error('broken move');
+    this.path.add(e.point);
+  }
+};`;
+}
+
+/** A drag from `y` with `moves` pointermove events. */
+function drag(y: number, moves: number): PointerInput[] {
+  return Array.from({ length: moves + 1 }, (_, i) => ({ x: 40 + i * 40, y }));
+}
+
+function expectQuarantine(
+  h: ToolHarness,
+  expected: { errorCount: number; handler: string } | null
+): void {
+  const info = h.toolSystem.getQuarantine("Flaky");
+  const actual = info && {
+    errorCount: info.errorCount,
+    handler: info.handler,
+  };
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      `quarantine ${JSON.stringify(actual)}, ` +
+        `expected ${JSON.stringify(expected)}`
+    );
+  }
+}
+
+export default [
+  {
+    // The fifth error within two seconds takes the tool out of service; the
+    // rest of the stroke no longer reaches it.
+    name: "error-budget",
+    tool: lineTool(true),
+    expectErrors: true,
+    run: (h) => {
+      h.stroke(drag(60, 4));
+      expectQuarantine(h, null);
+      h.stroke(drag(120, 4));
+      expectQuarantine(h, { errorCount: 5, handler: "onPointerMove" });
+      if (h.errors.length !== 5) {
+        throw new Error(`${h.errors.length} errors, expected 5`);
+      }
+      if (h.toolSystem.getActiveToolName() !== null) {
+        throw new Error("quarantined tool is still active");
+      }
+    },
+  },
+  {
+    // A hang stopped by the watchdog quarantines on the first offence.
+    name: "watchdog-stop",
+    tool: `
+export default {
+  name: 'Flaky',
+  onPointerDown(e) {
+    new paper.Path.Circle({ center: e.point, radius: 6, fillColor: 'black' });
+    while (true) {}
+  }
+};`,
+    expectErrors: true,
+    run: (h) => {
+      h.toolSystem.watchdog.budgetMs = 50;
+      h.stroke(drag(60, 2));
+      expectQuarantine(h, { errorCount: 1, handler: "onPointerDown" });
+      const error = h.toolSystem.getQuarantine("Flaky")?.error;
+      if (!(error instanceof WatchdogError)) {
+        throw new Error(`quarantined for ${error}, expected a WatchdogError`);
+      }
+    },
+  },
+  {
+    // Registering the tool again starts a fresh budget, so four errors
+    // before and four after don't add up to a quarantine; the fifth after
+    // does.
+    name: "budget-resets-on-register",
+    tool: lineTool(true),
+    expectErrors: true,
+    run: (h) => {
+      h.stroke(drag(60, 4));
+      h.load(lineTool(true));
+      h.stroke(drag(120, 4));
+      expectQuarantine(h, null);
+      h.stroke(drag(180, 1));
+      expectQuarantine(h, { errorCount: 5, handler: "onPointerMove" });
+    },
+  },
+  {
+    // Code that worked is kept as the fallback for the broken code that
+    // replaced it, and restoring it brings the tool back.
+    name: "working-code-fallback",
+    tool: lineTool(false),
+    expectErrors: true,
+    run: (h) => {
+      const working = new WorkingCode(h.toolSystem);
+      h.stroke(drag(60, 4));
+      working.remember("Flaky", lineTool(false));
+      h.load(lineTool(true));
+      // Broken code never proved itself, so it is not kept.
+      working.remember("Flaky", lineTool(true));
+      h.stroke(drag(120, 5));
+      expectQuarantine(h, { errorCount: 5, handler: "onPointerMove" });
+      // Nor once it is quarantined, though its onPointerDown ran cleanly.
+      working.remember("Flaky", lineTool(true));
+
+      const fallback = working.get("Flaky");
+      if (fallback !== lineTool(false)) {
+        throw new Error("the working code was not kept as the fallback");
+      }
+      h.load(fallback);
+      expectQuarantine(h, null);
+      h.stroke(drag(180, 4));
+    },
+  },
+] satisfies ToolScenario[];
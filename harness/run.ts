@@ -0,0 +1,126 @@
+/*
+ * Harness runner – `npm run harness [--update] [files...]`.
+ *
+ * Runs the given `*.scenario.ts` files (all of them under harness/ by
+ * default) and checks each scenario's SVG against
+ * `__snapshots__/<file>/<scenario>.svg`. Missing snapshots are created,
+ * or fail the run when `CI` is set; `--update` writes missing ones and
+ * rewrites the ones that differ. Exits with 1 if a snapshot is missing on
+ * CI or differs, or a tool hook threw.
+ *
+ * A scenario file default-exports an array of ToolScenario:
+ *
+ *   import type { ToolScenario } from "./tool-harness.js";
+ *
+ *   export default [
+ *     {
+ *       name: "stroke-diagonal",
+ *       tool: "stroke",
+ *       run: (h) => h.stroke([{ x: 10, y: 10 }, { x: 90, y: 90 }]),
+ *     },
+ *   ] satisfies ToolScenario[];
+ */
+import { readdirSync, readFileSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { ToolHarness } from "./tool-harness.js";
+import type { ToolScenario } from "./tool-harness.js";
+import { matchSnapshot, diffLines } from "./snapshot.js";
+
+const SCENARIO_SUFFIX = ".scenario.ts";
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const update = args.includes("--update");
+  const files = args
+    .filter((arg) => !arg.startsWith("--"))
+    .map((f) => resolve(f));
+  if (files.length === 0) files.push(...findScenarios(import.meta.dirname));
+
+  if (files.length === 0) {
+    console.log(`No ${SCENARIO_SUFFIX} files found.`);
+    return;
+  }
+
+  let failed = 0;
+  let total = 0;
+  for (const file of files) {
+    const scenarios: ToolScenario[] =
+      (await import(pathToFileURL(file).href)).default ?? [];
+    const snapshotDir = join(
+      dirname(file),
+      "__snapshots__",
+      basename(file, SCENARIO_SUFFIX)
+    );
+
+    for (const scenario of scenarios) {
+      total++;
+      const label = `${basename(file)} › ${scenario.name}`;
+      const harness = new ToolHarness(scenario.options);
+      try {
+        harness.load(scenario.tool);
+        await scenario.run(harness);
+        await harness.settle();
+
+        const svg = harness.toSVG();
+        const snapshot = join(snapshotDir, `${scenario.name}.svg`);
+        const expected = safeRead(snapshot);
+        const result = matchSnapshot(snapshot, svg, update);
+        const errors = scenario.expectErrors ? [] : harness.errors;
+
+        if (
+          result === "mismatch" ||
+          result === "missing" ||
+          errors.length > 0
+        ) {
+          failed++;
+          console.log(`✗ ${label}`);
+          if (result === "mismatch")
+            console.log(diffLines(expected ?? "", svg));
+          if (result === "missing") {
+            console.log(
+              `  No snapshot at ${snapshot}; run with --update to create it`
+            );
+          }
+          errors.forEach((info) =>
+            console.log(
+              `  ${info.toolName}.${info.handler}: ${String(info.error)}`
+            )
+          );
+        } else {
+          console.log(`✓ ${label}${result === "match" ? "" : ` (${result})`}`);
+        }
+      } catch (err) {
+        failed++;
+        console.log(
+          `✗ ${label}\n  ${err instanceof Error ? err.message : String(err)}`
+        );
+      } finally {
+        harness.dispose();
+      }
+    }
+  }
+
+  console.log(`\n${total - failed}/${total} scenarios passed`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+function findScenarios(root: string): string[] {
+  return (readdirSync(root, { recursive: true }) as string[])
+    .filter((f) => f.endsWith(SCENARIO_SUFFIX))
+    .map((f) => join(root, f))
+    .sort();
+}
+
+function safeRead(file: string): string | null {
+  try {
+    return readFileSync(file, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+/*
+ * SVG snapshots – compare harness output against files stored next to the
+ * scenario that produced them.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+export type SnapshotResult =
+  | "match"
+  | "created"
+  | "updated"
+  | "mismatch"
+  | "missing";
+
+/**
+ * Compare `actual` with the snapshot at `file`. A missing snapshot is
+ * written, except on CI (`process.env.CI`) where it is reported as
+ * "missing" so unreviewed output can't pass; with `update` a missing or
+ * differing one is always written.
+ */
+export function matchSnapshot(
+  file: string,
+  actual: string,
+  update: boolean = false
+): SnapshotResult {
+  if (!existsSync(file)) {
+    if (process.env.CI && !update) return "missing";
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, actual);
+    return "created";
+  }
+  if (readFileSync(file, "utf8") === actual) return "match";
+  if (!update) return "mismatch";
+  writeFileSync(file, actual);
+  return "updated";
+}
+
+/** Line-based summary of where two snapshots differ, for the report. */
+export function diffLines(
+  expected: string,
+  actual: string,
+  limit = 10
+): string {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length) && out.length < limit; i++) {
+    if (a[i] === b[i]) continue;
+    if (a[i] !== undefined) out.push(`  ${i + 1} - ${a[i]}`);
+    if (b[i] !== undefined) out.push(`  ${i + 1} + ${b[i]}`);
+  }
+  return out.join("\n");
+}
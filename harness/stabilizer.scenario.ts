@@ -0,0 +1,59 @@
+/*
+ * Tools drawing through the StrokeStabilizer: smoothed strokes still end
+ * exactly where the pointer was released.
+ */
+import type {
+  ToolScenario,
+  PointerInput,
+  ToolHarness,
+} from "./tool-harness.js";
+import { DEFAULT_STABILIZER_SETTINGS } from "../src/stroke-stabilizer.js";
+
+/** A straight drag from (40, 150) to (360, 150). */
+const straight: PointerInput[] = Array.from({ length: 9 }, (_, i) => ({
+  x: 40 + i * 40,
+  y: 150,
+}));
+
+const zigzag: PointerInput[] = Array.from({ length: 13 }, (_, i) => ({
+  x: 40 + i * 25,
+  y: i % 2 === 0 ? 100 : 180,
+}));
+
+/** Drag through `points` and fail unless pointerup lands on the last one. */
+function dragToRelease(h: ToolHarness, points: PointerInput[]): void {
+  h.pointer("pointerdown", points[0]);
+  points.slice(1).forEach((p) => h.pointer("pointermove", p));
+  const last = points[points.length - 1];
+  const up = h.pointer("pointerup", last);
+  if (!up || up.point.x !== last.x || up.point.y !== last.y) {
+    throw new Error(
+      `pointerup at ${up?.point} instead of the release point ` +
+        `(${last.x}, ${last.y})`
+    );
+  }
+}
+
+export default [
+  {
+    name: "line-default-settings",
+    tool: "line",
+    options: { stabilizer: DEFAULT_STABILIZER_SETTINGS },
+    run: (h) => dragToRelease(h, straight),
+  },
+  {
+    name: "rectangle-default-settings",
+    tool: "rectangle",
+    options: { stabilizer: DEFAULT_STABILIZER_SETTINGS },
+    run: (h) => dragToRelease(h, [...straight, { x: 360, y: 260 }]),
+  },
+  {
+    name: "stroke-string-and-smoothing",
+    tool: "stroke",
+    options: { stabilizer: { stringLength: 30, smoothing: 5 } },
+    run: (h) => {
+      h.setParam("simplify", false);
+      dragToRelease(h, zigzag);
+    },
+  },
+] satisfies ToolScenario[];
@@ -0,0 +1,111 @@
+/*
+ * Snapshots of the built-in tools (TOOL_TEMPLATES) drawing with scripted
+ * input.
+ */
+import type { ToolScenario, PointerInput } from "./tool-harness.js";
+
+/** A gently curved drag from (40, 150) to (360, 150). */
+const wave: PointerInput[] = Array.from({ length: 17 }, (_, i) => ({
+  x: 40 + i * 20,
+  y: 150 + Math.round(Math.sin(i / 2) * 60),
+}));
+
+export default [
+  {
+    name: "stroke-wave",
+    tool: "stroke",
+    run: (h) => h.stroke(wave),
+  },
+  {
+    name: "stroke-params",
+    tool: "stroke",
+    run: (h) => {
+      h.setParam("strokeWidth", 12);
+      h.setParam("strokeCap", "square");
+      h.setParam("simplify", false);
+      h.stroke(wave.slice(0, 6));
+    },
+  },
+  {
+    name: "stroke-colors",
+    tool: "stroke",
+    run: (h) => {
+      h.stroke(wave.slice(0, 5));
+      h.setColors({ primary: "#2e7d32" });
+      h.stroke(wave.slice(8, 13));
+    },
+  },
+  {
+    name: "rectangle-drag",
+    tool: "rectangle",
+    // Only the rectangle of the final pointer position is kept.
+    run: (h) =>
+      h.stroke([
+        { x: 50, y: 40 },
+        { x: 120, y: 90 },
+        { x: 300, y: 60 },
+        { x: 250, y: 220 },
+      ]),
+  },
+  {
+    name: "rectangle-two",
+    tool: "rectangle",
+    run: (h) => {
+      h.stroke([
+        { x: 20, y: 20 },
+        { x: 140, y: 100 },
+      ]);
+      h.stroke([
+        { x: 380, y: 280 },
+        { x: 200, y: 160 },
+      ]);
+    },
+  },
+  {
+    name: "line-drag",
+    tool: "line",
+    run: (h) =>
+      h.stroke([
+        { x: 30, y: 260 },
+        { x: 200, y: 40 },
+        { x: 370, y: 150 },
+      ]),
+  },
+  {
+    name: "circle-drag",
+    tool: "circle",
+    run: (h) =>
+      h.stroke([
+        { x: 200, y: 150 },
+        { x: 260, y: 150 },
+        { x: 200, y: 60 },
+      ]),
+  },
+  {
+    name: "circle-secondary-color",
+    tool: "circle",
+    options: { secondary: "#6a1b9a" },
+    run: (h) =>
+      h.stroke([
+        { x: 100, y: 100 },
+        { x: 140, y: 130 },
+      ]),
+  },
+  {
+    name: "pixelbrush-mouse",
+    tool: "pixelbrush",
+    run: (h) => h.stroke(wave),
+  },
+  {
+    name: "pixelbrush-pen-pressure",
+    tool: "pixelbrush",
+    run: (h) =>
+      h.stroke(
+        wave.map((p, i) => ({
+          ...p,
+          pointerType: "pen" as const,
+          pressure: 0.1 + (0.8 * i) / (wave.length - 1),
+        }))
+      ),
+  },
+] satisfies ToolScenario[];
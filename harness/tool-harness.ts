@@ -0,0 +1,363 @@
+/*
+ * ToolHarness – runs tool code in Node without a browser.
+ *
+ * A Paper.js project is set up without a visible canvas (Paper's Node build
+ * renders through jsdom), the tool is compiled through the same factory as
+ * PaperManager.executeCode and then driven with scripted pointer / key /
+ * wheel input. The drawing is read back with toSVG() for snapshot tests.
+ * Strokes are recorded in a real HistoryManager, so scenarios can undo them.
+ *
+ * Tools read `window.globalColors` and friends, so the harness installs
+ * those globals; only one harness should be in use at a time. Raster tools
+ * get OverlayStub as `window.OverlayCanvas`.
+ */
+import paper from "paper";
+import { ToolSystem } from "../src/tool-system.js";
+import type {
+  Tool,
+  ToolErrorInfo,
+  PointerData,
+  PointerEventType,
+  KeyData,
+  WheelData,
+} from "../src/tool-system.js";
+import { compileTool } from "../src/tool-factory.js";
+import { tiltToAngles } from "../src/device-profiles.js";
+import { TOOL_TEMPLATES } from "../src/tool-templates.js";
+import { HistoryManager } from "../src/history-manager.js";
+import { StrokeStabilizer } from "../src/stroke-stabilizer.js";
+import type { StabilizerSettings } from "../src/stroke-stabilizer.js";
+import type { PaperManager } from "../src/paper-manager.js";
+import { OverlayStub } from "./overlay-stub.js";
+
+export interface HarnessOptions {
+  width?: number;
+  height?: number;
+  primary?: string;
+  secondary?: string;
+  /** Code of user tools the loaded tool imports, by key ("user:…"). */
+  modules?: Record<string, string>;
+  /**
+   * Run pointer input through a StrokeStabilizer with these settings, like
+   * InputManager does. Off (null) by default so scripted points arrive as is.
+   */
+  stabilizer?: Partial<StabilizerSettings> | null;
+}
+
+/** Scripted pointer sample; everything but the position is optional. */
+export interface PointerInput {
+  x: number;
+  y: number;
+  /** Defaults to 0.5 while pressed and 0 otherwise, like a mouse. */
+  pressure?: number;
+  buttons?: number;
+  pointerId?: number;
+  pointerType?: "mouse" | "pen" | "touch";
+  tiltX?: number;
+  tiltY?: number;
+  /** Milliseconds since the previous sample; defaults to 16. */
+  dt?: number;
+}
+
+export interface KeyInput {
+  code?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+  alt?: boolean;
+  meta?: boolean;
+}
+
+/** One snapshot test, default-exported in arrays from `*.scenario.ts` files. */
+export interface ToolScenario {
+  name: string;
+  /** TOOL_TEMPLATES key or tool code. */
+  tool: string;
+  options?: HarnessOptions;
+  /** Tool hook errors are failures unless the scenario expects them. */
+  expectErrors?: boolean;
+  run(harness: ToolHarness): void | Promise<void>;
+}
+
+const DEFAULT_OPTIONS: Required<HarnessOptions> = {
+  width: 400,
+  height: 300,
+  primary: "#007acc",
+  secondary: "#ff6b6b",
+  modules: {},
+  stabilizer: null,
+};
+
+export class ToolHarness {
+  readonly scope: any;
+  readonly toolSystem = new ToolSystem();
+  /** Undo history of the drawing, fed the way PaperManager feeds the app's. */
+  readonly history: HistoryManager;
+  private modules: Record<string, string>;
+  private stabilizer: StrokeStabilizer | null;
+  /** Errors thrown from tool hooks, in order. */
+  readonly errors: ToolErrorInfo[] = [];
+  /** Scripted clock used for `timeStamp`. */
+  time = 0;
+
+  private colorListeners: Set<
+    (colors: { primary: string; secondary: string }) => void
+  > = new Set();
+
+  constructor(options: HarnessOptions = {}) {
+    const { width, height, primary, secondary, modules, stabilizer } = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+    };
+    this.modules = modules;
+    this.stabilizer = stabilizer ? new StrokeStabilizer(stabilizer) : null;
+    this.scope = new (paper as any).PaperScope();
+    this.scope.setup(new this.scope.Size(width, height));
+
+    const globals = globalThis as any;
+    globals.window ??= globalThis;
+    const listeners = this.colorListeners;
+    Object.assign(globals.window, {
+      paper: this.scope,
+      project: this.scope.project,
+      view: this.scope.view,
+      toolSystem: this.toolSystem,
+      OverlayCanvas: OverlayStub,
+      globalColors: {
+        primary,
+        secondary,
+        listeners,
+        setPrimary(color: string) {
+          this.primary = color;
+          listeners.forEach((l) =>
+            l({ primary: color, secondary: this.secondary })
+          );
+        },
+        setSecondary(color: string) {
+          this.secondary = color;
+          listeners.forEach((l) =>
+            l({ primary: this.primary, secondary: color })
+          );
+        },
+        addListener(
+          l: (colors: { primary: string; secondary: string }) => void
+        ) {
+          listeners.add(l);
+        },
+        removeListener(
+          l: (colors: { primary: string; secondary: string }) => void
+        ) {
+          listeners.delete(l);
+        },
+      },
+    });
+    listeners.add((colors) => this.toolSystem.dispatchColorChange(colors));
+
+    const projectListeners: Set<() => void> = new Set();
+    const projectChanged = () => projectListeners.forEach((l) => l());
+    this.history = new HistoryManager({
+      addEventListener(type: string, listener: () => void) {
+        if (type === "projectChanged") projectListeners.add(listener);
+      },
+    } as unknown as PaperManager);
+    this.toolSystem.history = this.history;
+    this.toolSystem.addChangeListener(projectChanged);
+    this.toolSystem.addBusyListener((_toolName, busy) => {
+      if (!busy) projectChanged();
+    });
+
+    this.toolSystem.addErrorListener((info) => this.errors.push(info));
+  }
+
+  /* ---------- Tools ---------- */
+
+  /**
+   * Compile tool code (or a TOOL_TEMPLATES key), register and activate it.
+   * Throws if the code fails or returns no tool.
+   */
+  load(codeOrTemplate: string): Tool {
+    const code = TOOL_TEMPLATES[codeOrTemplate]?.code ?? codeOrTemplate;
+    this.scope.activate();
+    const tool = compileTool(code, this.toolSystem, {
+      paper: this.scope,
+      project: this.scope.project,
+      view: this.scope.view,
+      resolveModule: (key) => this.modules[key],
+    });
+    if (!tool) throw new Error("Tool code did not return a tool object");
+    this.toolSystem.register(tool);
+    this.toolSystem.activate(tool.name);
+    return tool;
+  }
+
+  /** Set a parameter as the properties panel would. */
+  setParam(key: string, value: unknown): void {
+    const name = this.toolSystem.getActiveToolName();
+    if (name) this.toolSystem.setParam(name, key, value);
+  }
+
+  /* ---------- Input ---------- */
+
+  /**
+   * Dispatch one pointer event. Returns what the tool received, or null if
+   * the stabilizer dropped the event.
+   */
+  pointer(type: PointerEventType, input: PointerInput): PointerData | null {
+    const data = this.makePointerData(type, input);
+    if (
+      !this.stabilizer ||
+      type === "pointerenter" ||
+      type === "pointerleave"
+    ) {
+      this.toolSystem.dispatchPointer(type, data);
+      return data;
+    }
+    if (type === "pointercancel") {
+      this.stabilizer.reset(data.pointerId);
+      this.toolSystem.dispatchPointer(type, data);
+      return data;
+    }
+    // Same order as InputManager: catch up, then the stabilized event.
+    if (type === "pointerup") {
+      const catchUp = this.stabilizer.catchUp(data);
+      if (catchUp) this.toolSystem.dispatchPointer("pointermove", catchUp);
+    }
+    const stabilized = this.stabilizer.process(type, data);
+    if (stabilized) this.toolSystem.dispatchPointer(type, stabilized);
+    return stabilized;
+  }
+
+  /** Press at the first point, drag through the rest, release at the last. */
+  stroke(points: PointerInput[]): void {
+    if (points.length === 0) return;
+    this.pointer("pointerdown", points[0]);
+    points.slice(1).forEach((p) => this.pointer("pointermove", p));
+    this.pointer("pointerup", points[points.length - 1]);
+  }
+
+  /** Move without pressing, e.g. to exercise onPointerHover. */
+  hover(points: PointerInput[]): void {
+    points.forEach((p) => this.pointer("pointermove", { buttons: 0, ...p }));
+  }
+
+  keyDown(key: string, input: KeyInput = {}): void {
+    this.toolSystem.dispatchKey(
+      "keydown",
+      this.makeKeyData("keydown", key, input)
+    );
+  }
+
+  keyUp(key: string, input: KeyInput = {}): void {
+    this.toolSystem.dispatchKey("keyup", this.makeKeyData("keyup", key, input));
+  }
+
+  /** Press and release a key. */
+  key(key: string, input: KeyInput = {}): void {
+    this.keyDown(key, input);
+    this.keyUp(key, input);
+  }
+
+  /** Returns true if the tool consumed the wheel event. */
+  wheel(
+    x: number,
+    y: number,
+    deltaY: number,
+    input: KeyInput & { deltaX?: number } = {}
+  ): boolean {
+    const data: WheelData = {
+      point: new this.scope.Point(x, y),
+      deltaX: input.deltaX ?? 0,
+      deltaY,
+      ctrl: !!input.ctrl,
+      shift: !!input.shift,
+      alt: !!input.alt,
+      meta: !!input.meta,
+      native: { type: "wheel" } as unknown as WheelEvent,
+    };
+    return this.toolSystem.dispatchWheel(data);
+  }
+
+  setColors(colors: { primary?: string; secondary?: string }): void {
+    const globalColors = (globalThis as any).window.globalColors;
+    if (colors.primary) globalColors.setPrimary(colors.primary);
+    if (colors.secondary) globalColors.setSecondary(colors.secondary);
+  }
+
+  /**
+   * Let async handlers (e.g. `async onPointerUp`) and the input queued
+   * behind them finish. Gives up after `timeoutMs`.
+   */
+  async settle(timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    do {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    } while (this.isBusy() && Date.now() < deadline);
+  }
+
+  private isBusy(): boolean {
+    const name = this.toolSystem.getActiveToolName();
+    return name !== null && this.toolSystem.isBusy(name);
+  }
+
+  /* ---------- Output ---------- */
+
+  /** The project as SVG, one element per line so snapshot diffs stay readable. */
+  toSVG(): string {
+    const svg: string = this.scope.project.exportSVG({
+      asString: true,
+      precision: 2,
+    });
+    return svg.replace(/></g, ">\n<") + "\n";
+  }
+
+  dispose(): void {
+    const name = this.toolSystem.getActiveToolName();
+    if (name) this.toolSystem.disable(name);
+    this.colorListeners.clear();
+    this.scope.project.remove();
+  }
+
+  /* ---------- Helpers ---------- */
+
+  private makePointerData(
+    type: PointerEventType,
+    input: PointerInput
+  ): PointerData {
+    this.time += input.dt ?? 16;
+    const pressed =
+      type === "pointerdown" || (type === "pointermove" && input.buttons !== 0);
+    const pressure = input.pressure ?? (pressed ? 0.5 : 0);
+    const tiltX = input.tiltX ?? 0;
+    const tiltY = input.tiltY ?? 0;
+    const angles = tiltToAngles(tiltX, tiltY);
+    return {
+      point: new this.scope.Point(input.x, input.y),
+      pressure,
+      buttons: input.buttons ?? (pressed ? 1 : 0),
+      pointerId: input.pointerId ?? 1,
+      pointerType: input.pointerType ?? "mouse",
+      tiltX,
+      tiltY,
+      altitude: angles.altitude,
+      azimuth: angles.azimuth,
+      raw: { pressure, tiltX, tiltY },
+      timeStamp: this.time,
+      native: { type } as unknown as PointerEvent,
+    };
+  }
+
+  private makeKeyData(
+    type: "keydown" | "keyup",
+    key: string,
+    input: KeyInput
+  ): KeyData {
+    return {
+      key,
+      code: input.code ?? "",
+      ctrl: !!input.ctrl,
+      shift: !!input.shift,
+      alt: !!input.alt,
+      meta: !!input.meta,
+      native: { type, key } as unknown as KeyboardEvent,
+    };
+  }
+}
@@ -0,0 +1,186 @@
+/*
+ * AutosaveManager – keeps a crash-recovery snapshot of the document and the
+ * code editor buffer in IndexedDB.
+ *
+ * Snapshots are written shortly after project / code changes and on a fixed
+ * interval while changes are pending, so a reload or browser crash loses at
+ * most a few seconds of work.
+ */
+import type { PaperManager } from "./paper-manager.js";
+import { serializeDocument } from "./document-file.js";
+import type { CanvasCodeDocument } from "./document-file.js";
+
+const DB_NAME = "canvascode";
+const DB_VERSION = 1;
+const STORE_NAME = "autosave";
+const SNAPSHOT_KEY = "session";
+
+export interface AutosaveSnapshot {
+  /** Epoch milliseconds when the snapshot was written. */
+  savedAt: number;
+  /** True if the session had work that was not saved to a file. */
+  dirty: boolean;
+  document: CanvasCodeDocument;
+  /** Code editor contents, including edits that were never applied. */
+  editor: { toolName: string; code: string; unapplied: boolean };
+}
+
+/** Reads the current code editor buffer; installed by main.ts. */
+export type EditorBufferProvider = () => AutosaveSnapshot["editor"] | null;
+
+export class AutosaveManager {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private debounceTimer: number | undefined;
+  private intervalTimer: number | undefined;
+  private pending = false;
+  private running = false;
+  private paperManager: PaperManager;
+  private getEditorBuffer: EditorBufferProvider;
+
+  /** Delay after the last change before a snapshot is written. */
+  debounceMs = 2000;
+  /** Upper bound between snapshots while changes keep coming in. */
+  intervalMs = 30000;
+
+  constructor(
+    paperManager: PaperManager,
+    getEditorBuffer: EditorBufferProvider
+  ) {
+    this.paperManager = paperManager;
+    this.getEditorBuffer = getEditorBuffer;
+  }
+
+  /**
+   * Start listening for changes. Call this only after a possible restore so
+   * the previous snapshot isn't overwritten before the user decides.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.paperManager.addEventListener("projectChanged", this.scheduleSave);
+    this.paperManager.addEventListener("codeChanged", this.scheduleSave);
+    document.addEventListener("editor-input", this.scheduleSave);
+    document.addEventListener("visibilitychange", this.handleVisibility);
+    // Saving to a file changes the dirty flag stored with the snapshot.
+    window.historyManager?.addListener(this.scheduleSave);
+
+    this.intervalTimer = window.setInterval(() => {
+      if (this.pending) void this.save();
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+
+    this.paperManager.removeEventListener("projectChanged", this.scheduleSave);
+    this.paperManager.removeEventListener("codeChanged", this.scheduleSave);
+    document.removeEventListener("editor-input", this.scheduleSave);
+    document.removeEventListener("visibilitychange", this.handleVisibility);
+    window.historyManager?.removeListener(this.scheduleSave);
+    clearTimeout(this.debounceTimer);
+    clearInterval(this.intervalTimer);
+  }
+
+  /** Load the last snapshot, or null if there is none. */
+  async load(): Promise<AutosaveSnapshot | null> {
+    try {
+      const db = await this.openDB();
+      const snapshot = await this.request<AutosaveSnapshot | undefined>(
+        db
+          .transaction(STORE_NAME, "readonly")
+          .objectStore(STORE_NAME)
+          .get(SNAPSHOT_KEY)
+      );
+      return snapshot ?? null;
+    } catch (err) {
+      console.warn("Autosave: could not read snapshot", err);
+      return null;
+    }
+  }
+
+  /** Write a snapshot of the current session immediately. */
+  async save(): Promise<void> {
+    clearTimeout(this.debounceTimer);
+    this.pending = false;
+
+    const editor = this.getEditorBuffer() ?? {
+      toolName: this.paperManager.getCurrentToolName() ?? "",
+      code: this.paperManager.getCurrentCode(),
+      unapplied: false,
+    };
+    const snapshot: AutosaveSnapshot = {
+      savedAt: Date.now(),
+      dirty: (window.historyManager?.isDirty() ?? false) || editor.unapplied,
+      document: serializeDocument(),
+      editor,
+    };
+
+    try {
+      const db = await this.openDB();
+      await this.request(
+        db
+          .transaction(STORE_NAME, "readwrite")
+          .objectStore(STORE_NAME)
+          .put(snapshot, SNAPSHOT_KEY)
+      );
+    } catch (err) {
+      console.warn("Autosave: could not write snapshot", err);
+    }
+  }
+
+  /** Remove the stored snapshot. */
+  async clear(): Promise<void> {
+    try {
+      const db = await this.openDB();
+      await this.request(
+        db
+          .transaction(STORE_NAME, "readwrite")
+          .objectStore(STORE_NAME)
+          .delete(SNAPSHOT_KEY)
+      );
+    } catch (err) {
+      console.warn("Autosave: could not clear snapshot", err);
+    }
+  }
+
+  private scheduleSave = (): void => {
+    this.pending = true;
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = window.setTimeout(
+      () => void this.save(),
+      this.debounceMs
+    );
+  };
+
+  // Flush when the tab is hidden – the last chance before it may be killed.
+  private handleVisibility = (): void => {
+    if (document.visibilityState === "hidden" && this.pending) {
+      void this.save();
+    }
+  };
+
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry on the next call if opening failed.
+      this.dbPromise.catch(() => (this.dbPromise = null));
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
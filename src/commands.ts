@@ -0,0 +1,281 @@
+/*
+ * Default app commands. Ids double as the `menu-action` names dispatched by
+ * the menu bar, so menu buttons and shortcuts always do the same thing.
+ */
+import type { Keymap } from "./keymap.js";
+import { TOOL_TEMPLATES } from "./tool-templates.js";
+import { saveDocument, openDocument } from "./document-file.js";
+import { saveRecording, openRecording } from "./input-recorder.js";
+import type { InputRecording } from "./input-recorder.js";
+import type { NewDocumentDialog } from "./components/new-document-dialog.js";
+import type { ExportDialog } from "./components/export-dialog.js";
+import type { OutlinePanel } from "./components/outline-panel.js";
+import type { CodeEditor } from "./components/code-editor.js";
+import type { ShortcutsDialog } from "./components/shortcuts-dialog.js";
+import type { InputSettingsDialog } from "./components/input-settings-dialog.js";
+
+/**
+ * Holding a tool key longer than this only borrows the tool until the key is
+ * released; a shorter tap switches to it for good.
+ */
+const SPRING_LOAD_MS = 250;
+
+/** Default single-key shortcuts for the built-in tools. */
+const TOOL_SHORTCUTS: { [key: string]: string } = {
+  stroke: "B",
+  rectangle: "R",
+  line: "L",
+  circle: "C",
+  pixelbrush: "P",
+};
+
+export function registerDefaultCommands(keymap: Keymap): void {
+  // Name of the document file last opened / saved, reused for the next save
+  let documentName = "drawing";
+  window.paperManager.addEventListener("documentReset", () => {
+    documentName = "drawing";
+  });
+
+  /* File */
+  keymap.register({
+    id: "new",
+    label: "New document",
+    category: "File",
+    run: () =>
+      (
+        document.querySelector("new-document-dialog") as NewDocumentDialog
+      )?.open(),
+  });
+  keymap.register(
+    {
+      id: "open",
+      label: "Open document",
+      category: "File",
+      global: true,
+      run: () => {
+        if (
+          window.historyManager.isDirty() &&
+          !confirm("Discard unsaved changes and open another document?")
+        ) {
+          return;
+        }
+        openDocument()
+          .then((name) => {
+            if (name) documentName = name;
+          })
+          .catch((err) => {
+            console.error("Failed to open document:", err);
+            alert(
+              `Could not open document: ${
+                err instanceof Error ? err.message : String(err)
+              }`
+            );
+          });
+      },
+    },
+    ["Mod+O"]
+  );
+  keymap.register(
+    {
+      id: "save",
+      label: "Save document",
+      category: "File",
+      global: true,
+      run: () => saveDocument(documentName),
+    },
+    ["Mod+S"]
+  );
+  keymap.register(
+    {
+      id: "export",
+      label: "Export…",
+      category: "File",
+      global: true,
+      run: () => {
+        const outline = document.querySelector(
+          "outline-panel"
+        ) as OutlinePanel | null;
+        const dialog = document.querySelector(
+          "export-dialog"
+        ) as ExportDialog | null;
+        dialog?.open(outline?.getSelectedItem() ?? null);
+      },
+    },
+    ["Mod+Shift+E"]
+  );
+
+  /* Edit */
+  keymap.register(
+    {
+      id: "undo",
+      label: "Undo",
+      category: "Edit",
+      repeat: true,
+      run: () => window.historyManager.undo(),
+    },
+    ["Mod+Z"]
+  );
+  keymap.register(
+    {
+      id: "redo",
+      label: "Redo",
+      category: "Edit",
+      repeat: true,
+      run: () => window.historyManager.redo(),
+    },
+    ["Mod+Shift+Z", "Mod+Y"]
+  );
+  keymap.register(
+    {
+      id: "clear-canvas",
+      label: "Clear canvas",
+      category: "Edit",
+      run: () => window.paperManager.clearAll(),
+    },
+    ["Mod+Shift+Backspace"]
+  );
+
+  /* View */
+  keymap.register(
+    {
+      id: "zoom-fit",
+      label: "Zoom to fit",
+      category: "View",
+      run: () => window.inputSystem.viewport.zoomToFit(),
+    },
+    ["Mod+0"]
+  );
+  keymap.register(
+    {
+      id: "zoom-100",
+      label: "Actual size",
+      category: "View",
+      run: () => window.inputSystem.viewport.zoomToActual(),
+    },
+    ["Mod+1"]
+  );
+  keymap.register(
+    {
+      id: "zoom-selection",
+      label: "Zoom to selection",
+      category: "View",
+      run: () => window.inputSystem.viewport.zoomToSelection(),
+    },
+    ["Mod+2"]
+  );
+  keymap.register({
+    id: "shortcuts",
+    label: "Keyboard shortcuts…",
+    category: "View",
+    run: () =>
+      (document.querySelector("shortcuts-dialog") as ShortcutsDialog)?.open(),
+  });
+
+  /* Code */
+  keymap.register(
+    {
+      id: "run-code",
+      label: "Run code in editor",
+      category: "Code",
+      global: true,
+      run: () =>
+        (document.querySelector("code-editor") as CodeEditor)?.runCode(),
+    },
+    ["Mod+Enter"]
+  );
+
+  /* Input */
+  keymap.register({
+    id: "input-settings",
+    label: "Input settings…",
+    category: "Input",
+    run: () =>
+      (
+        document.querySelector("input-settings-dialog") as InputSettingsDialog
+      )?.open(),
+  });
+
+  /* Input recording */
+  const recorder = window.inputSystem.recorder;
+  const replay = (recording: InputRecording) => {
+    recorder
+      .replay(recording, window.inputSystem)
+      .catch((err) => console.error("Replay failed:", err));
+  };
+  keymap.register({
+    id: "record-input",
+    label: "Start / stop input recording",
+    category: "Input",
+    run: () => {
+      if (recorder.isRecording()) recorder.stopRecording();
+      else recorder.startRecording();
+    },
+  });
+  keymap.register({
+    id: "replay-input",
+    label: "Replay last recording / stop replay",
+    category: "Input",
+    run: () => {
+      if (recorder.isReplaying()) recorder.stopReplay();
+      else if (recorder.lastRecording) replay(recorder.lastRecording);
+    },
+  });
+  keymap.register({
+    id: "save-recording",
+    label: "Save last recording",
+    category: "Input",
+    run: () => {
+      if (recorder.lastRecording) saveRecording(recorder.lastRecording);
+    },
+  });
+  keymap.register({
+    id: "open-recording",
+    label: "Open and replay recording…",
+    category: "Input",
+    run: () => {
+      openRecording()
+        .then((recording) => {
+          if (!recording) return;
+          recorder.lastRecording = recording;
+          replay(recording);
+        })
+        .catch((err) => {
+          console.error("Failed to open recording:", err);
+          alert(
+            `Could not open recording: ${
+              err instanceof Error ? err.message : String(err)
+            }`
+          );
+        });
+    },
+  });
+
+  /* Tools */
+  Object.entries(TOOL_TEMPLATES).forEach(([key, template]) => {
+    // Whether the current key press borrowed the tool (spring-loaded).
+    let borrowed = false;
+    keymap.register(
+      {
+        id: `tool:${key}`,
+        label: template.name,
+        category: "Tools",
+        run: () => {
+          borrowed =
+            window.paperManager.getCurrentToolName() !== key &&
+            window.paperManager.springLoadTool(key);
+        },
+        release: (heldMs) => {
+          if (borrowed) window.toolSystem.restoreSpringLoaded();
+          borrowed = false;
+          if (
+            heldMs < SPRING_LOAD_MS &&
+            window.paperManager.getCurrentToolName() !== key
+          ) {
+            window.paperManager.loadTool(key);
+          }
+        },
+      },
+      TOOL_SHORTCUTS[key] ? [TOOL_SHORTCUTS[key]] : []
+    );
+  });
+}
@@ -1,8 +1,20 @@
 import { LitElement, html, css } from "lit";
-import { property } from "lit/decorators.js";
+import type { PropertyValues } from "lit";
+import { property, query } from "lit/decorators.js";
+import { EditorState, Annotation, Prec } from "@codemirror/state";
+import { EditorView, keymap, placeholder } from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap } from "@codemirror/commands";
+import { completionKeymap } from "@codemirror/autocomplete";
 import type { PaperManagerEvent } from "../types.js";
+import { isUserToolKey } from "../tool-library.js";
+import { toolLanguage } from "../tool-language.js";
+import { editorExtensions, setRuntimeError } from "../editor-extensions.js";
 import "./generic-panel.js";
 import "./panel-button.js";
+import "./quarantine-banner.js";
+
+/** Marks editor updates that come from `code` rather than from typing. */
+const externalChange = Annotation.define<boolean>();
 
 export class CodeEditor extends LitElement {
   static styles = css`
@@ -16,18 +28,51 @@ export class CodeEditor extends LitElement {
       flex-grow: 1;
     }
 
-    textarea {
-      width: 100%;
+    .hot-toggle {
+      display: flex;
+      align-items: center;
+      gap: 2px;
+      font-size: 0.85em;
+      color: var(--text-b);
+      cursor: pointer;
+    }
+
+    .editor {
       height: 100%;
-      border: none;
-      background: transparent;
-      resize: none;
-      font-family: var(--font-mono);
-      outline: none;
-      color: var(--text-a);
+      min-height: 0;
+    }
+
+    .error-line {
+      cursor: pointer;
+      text-decoration: underline;
     }
   `;
 
+  /** Look of the editing surface, matching the panels around it. */
+  private static editorTheme = EditorView.theme({
+    "&": {
+      height: "100%",
+      color: "var(--text-a)",
+      backgroundColor: "transparent",
+    },
+    "&.cm-focused": {
+      outline: "none",
+    },
+    ".cm-scroller": {
+      fontFamily: "var(--font-mono)",
+    },
+    ".cm-tooltip": {
+      backgroundColor: "var(--bg-a)",
+      border: "1px solid var(--border-a)",
+      color: "var(--text-a)",
+    },
+  });
+
+  @query(".editor")
+  private editorHost!: HTMLElement;
+
+  private view: EditorView | null = null;
+
   @property({ type: String })
   code: string = "";
 
@@ -37,9 +82,16 @@ export class CodeEditor extends LitElement {
   @property({ type: String })
   error: string = "";
 
+  /** Line of the code the error came from, if known. */
+  @property({ type: Number })
+  errorLine: number | null = null;
+
   @property({ type: Boolean })
   hasUnsavedChanges: boolean = false;
 
+  @property({ type: Boolean })
+  hotReload: boolean = false;
+
   connectedCallback(): void {
     super.connectedCallback();
     this.setupEventListeners();
@@ -73,29 +125,110 @@ export class CodeEditor extends LitElement {
     this.currentTool = event.toolName;
     this.error = "";
     this.hasUnsavedChanges = false;
+    this.markErrorLine(null);
   }
 
   private handleError(event: PaperManagerEvent["error"]): void {
     this.error = event.message;
     this.hasUnsavedChanges = true;
+    this.markErrorLine(event.location?.line ?? null);
+  }
+
+  private markErrorLine(line: number | null): void {
+    this.errorLine = line;
+    this.view?.dispatch({
+      effects: setRuntimeError.of(
+        line === null ? null : { line, message: this.error }
+      ),
+    });
+  }
+
+  /** Move the cursor to the line the error came from. */
+  private revealErrorLine(): void {
+    const view = this.view;
+    if (!view || this.errorLine === null) return;
+    if (this.errorLine > view.state.doc.lines) return;
+    const { from } = view.state.doc.line(this.errorLine);
+    view.dispatch({ selection: { anchor: from }, scrollIntoView: true });
+    view.focus();
+  }
+
+  protected firstUpdated(): void {
+    this.view = new EditorView({
+      parent: this.editorHost,
+      root: this.shadowRoot ?? undefined,
+      state: EditorState.create({
+        doc: this.code,
+        extensions: [
+          history(),
+          // Mod+Enter is the global run-code shortcut; don't insert a line.
+          Prec.highest(keymap.of([{ key: "Mod-Enter", run: () => true }])),
+          keymap.of([...completionKeymap, ...defaultKeymap, ...historyKeymap]),
+          placeholder("Select a tool to see its code."),
+          editorExtensions(),
+          toolLanguage(),
+          CodeEditor.editorTheme,
+          EditorView.updateListener.of((update) => {
+            const typed = update.transactions.some(
+              (tr) => tr.docChanged && !tr.annotation(externalChange)
+            );
+            if (typed) this.handleCodeChange(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+  }
+
+  protected updated(changed: PropertyValues): void {
+    const view = this.view;
+    if (!view || !changed.has("code")) return;
+    if (view.state.doc.toString() === this.code) return;
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: this.code },
+      annotations: externalChange.of(true),
+    });
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.view?.destroy();
+    this.view = null;
   }
 
-  private handleCodeChange(event: Event): void {
-    const target = event.target as HTMLTextAreaElement;
-    this.code = target.value;
+  private handleCodeChange(code: string): void {
+    this.code = code;
     this.hasUnsavedChanges = true;
     this.error = "";
+
+    // Let autosave know the buffer changed even though nothing was applied.
+    this.dispatchEvent(
+      new CustomEvent("editor-input", { bubbles: true, composed: true })
+    );
   }
 
-  private handleKeyDown(event: KeyboardEvent): void {
-    if ((event.ctrlKey || event.metaKey) && event.key === "Enter") {
-      event.preventDefault();
-      this.runCode();
-    }
+  /** Current editor contents, including edits that were not applied yet. */
+  getBuffer(): { toolName: string; code: string; unapplied: boolean } {
+    return {
+      toolName: this.currentTool,
+      code: this.code,
+      unapplied: this.hasUnsavedChanges,
+    };
+  }
+
+  /** Put recovered, not yet applied code back into the editor. */
+  restoreBuffer(code: string): void {
+    this.code = code;
+    this.hasUnsavedChanges = true;
+  }
+
+  private handleHotReloadToggle(event: Event): void {
+    this.hotReload = (event.target as HTMLInputElement).checked;
+    if (window.paperManager) window.paperManager.hotReload = this.hotReload;
   }
 
-  private runCode(): void {
+  runCode(): void {
     if (window.paperManager && this.code.trim()) {
+      this.markErrorLine(null);
       window.paperManager.updateCode(this.code);
       this.hasUnsavedChanges = false;
     }
@@ -107,16 +240,63 @@ export class CodeEditor extends LitElement {
     }
   }
 
+  /** Store the editor contents back into the active user tool. */
+  private saveTool(): void {
+    if (!isUserToolKey(this.currentTool) || !this.code.trim()) return;
+    window.toolLibrary.updateCode(this.currentTool, this.code);
+    this.runCode();
+  }
+
+  /** Store the editor contents as a new tool in the user library. */
+  private saveToolAs(): void {
+    if (!this.code.trim()) return;
+    const current = window.paperManager?.resolveTool(this.currentTool);
+    const name = prompt(
+      "Name for the new tool",
+      current ? `${current.name} copy` : "My Tool"
+    );
+    if (!name) return;
+    const description = prompt("Description", current?.description ?? "");
+
+    try {
+      const key = window.toolLibrary.create(name, description ?? "", this.code);
+      window.paperManager?.loadTool(key);
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  private get toolTitle(): string {
+    if (!this.currentTool) return "No Tool Selected";
+    return (
+      window.paperManager?.resolveTool(this.currentTool)?.name ??
+      this.currentTool
+    );
+  }
+
   render() {
     return html`
       <generic-panel>
         <div slot="header" class="header-content">
-          <span class="header-title"
-            >${this.currentTool || "No Tool Selected"}</span
-          >
+          <span class="header-title">${this.toolTitle}</span>
           <div class="header-spacer"></div>
           <div class="header-actions">
+            <label
+              class="hot-toggle"
+              title="Apply swaps the tool's handlers but keeps its state"
+            >
+              <input
+                type="checkbox"
+                .checked=${this.hotReload}
+                @change=${this.handleHotReloadToggle}
+              />
+              Hot
+            </label>
             <panel-button @click=${this.resetCode}>Reset</panel-button>
+            ${isUserToolKey(this.currentTool)
+              ? html`<panel-button @click=${this.saveTool}>Save</panel-button>`
+              : null}
+            <panel-button @click=${this.saveToolAs}>Save as</panel-button>
             <panel-button variant="primary" @click=${this.runCode}
               >Apply</panel-button
             >
@@ -127,17 +307,16 @@ export class CodeEditor extends LitElement {
           ? html`<div
               style="color: var(--error, red); padding: var(--space-unit)"
             >
-              ${this.error}
+              ${this.errorLine !== null
+                ? html`<a class="error-line" @click=${this.revealErrorLine}
+                    >Line ${this.errorLine}:</a
+                  > `
+                : null}${this.error}
             </div>`
           : null}
+        <quarantine-banner></quarantine-banner>
 
-        <textarea
-          .value=${this.code}
-          @input=${this.handleCodeChange}
-          @keydown=${this.handleKeyDown}
-          placeholder="Select a tool to see its code."
-          spellcheck="false"
-        ></textarea>
+        <div class="editor"></div>
       </generic-panel>
     `;
   }
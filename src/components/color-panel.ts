@@ -105,8 +105,19 @@ export class ColorPanel extends LitElement {
     // Sync local state with global state
     this.primaryColor = window.globalColors.primary;
     this.secondaryColor = window.globalColors.secondary;
+
+    // Follow changes made elsewhere (e.g. undo / redo restoring colours).
+    window.globalColors.addListener(this.handleGlobalColorChange);
   }
 
+  private handleGlobalColorChange = (change: {
+    type: "primary" | "secondary";
+    color: string;
+  }): void => {
+    if (change.type === "primary") this.primaryColor = change.color;
+    else this.secondaryColor = change.color;
+  };
+
   private handlePrimaryColorChange(event: Event): void {
     const input = event.target as HTMLInputElement;
     const color = input.value;
@@ -142,13 +153,10 @@ export class ColorPanel extends LitElement {
     }
 
     this.colorChangeTimeout = window.setTimeout(() => {
-      const tool = window.toolSystem?.getActiveTool();
-      if (tool && typeof tool.onColorChange === "function") {
-        tool.onColorChange({
-          primary: this.primaryColor,
-          secondary: this.secondaryColor,
-        });
-      }
+      window.toolSystem?.dispatchColorChange({
+        primary: this.primaryColor,
+        secondary: this.secondaryColor,
+      });
       // Components like the outline panel may wish to refresh; this keeps them
       // in sync without recompiling the active tool.
       window.paperManager?.notifyProjectChanged?.();
@@ -159,6 +167,7 @@ export class ColorPanel extends LitElement {
 
   disconnectedCallback(): void {
     super.disconnectedCallback();
+    window.globalColors?.removeListener(this.handleGlobalColorChange);
     if (this.colorChangeTimeout) {
       clearTimeout(this.colorChangeTimeout);
     }
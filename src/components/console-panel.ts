@@ -0,0 +1,245 @@
+import { LitElement, html, css } from "lit";
+import { state, query } from "lit/decorators.js";
+import type { ConsoleEntry, ConsoleLevel } from "../tool-console.js";
+import "./generic-panel.js";
+import "./panel-button.js";
+
+type LevelFilter = "all" | ConsoleLevel;
+
+/**
+ * Shows what tool code logged and which of its hooks threw (see
+ * ToolConsole), with stack frames as lines of the tool code.
+ */
+export class ConsolePanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      height: 100%;
+    }
+
+    generic-panel {
+      flex-grow: 1;
+    }
+
+    .filters {
+      display: flex;
+      gap: calc(var(--space-unit) / 2);
+      margin-bottom: calc(var(--space-unit) / 2);
+    }
+
+    .filters input {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .entries {
+      font-family: var(--font-mono);
+      font-size: 0.85em;
+      user-select: text;
+      -webkit-user-select: text;
+    }
+
+    .entry {
+      padding: 2px 4px;
+      border-bottom: 1px solid var(--border-a);
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    .entry.warn {
+      background: color-mix(in srgb, orange 12%, transparent);
+    }
+
+    .entry.error {
+      background: color-mix(in srgb, var(--error, red) 12%, transparent);
+      color: var(--error, red);
+    }
+
+    .source {
+      color: var(--text-b);
+    }
+
+    .count {
+      display: inline-block;
+      min-width: 1.5em;
+      padding: 0 4px;
+      border-radius: var(--radius);
+      background: var(--bg-b);
+      color: var(--text-b);
+      text-align: center;
+    }
+
+    .frame {
+      padding-left: 2ch;
+      color: var(--text-b);
+    }
+
+    .empty {
+      color: var(--text-b);
+      padding: calc(var(--space-unit) / 2);
+    }
+  `;
+
+  @state()
+  private entries: ConsoleEntry[] = [];
+
+  @state()
+  private level: LevelFilter = "all";
+
+  @state()
+  private toolFilter: string = "";
+
+  @state()
+  private text: string = "";
+
+  @query("generic-panel")
+  private panel!: HTMLElement;
+
+  /** Whether the list was scrolled to the end before this update. */
+  private atBottom = true;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.setupEventListeners();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    window.toolSystem?.toolConsole.removeListener(this.handleEntriesChanged);
+  }
+
+  private setupEventListeners(): void {
+    if (!window.toolSystem) {
+      setTimeout(() => this.setupEventListeners(), 100);
+      return;
+    }
+    window.toolSystem.toolConsole.addListener(this.handleEntriesChanged);
+    this.handleEntriesChanged();
+  }
+
+  private handleEntriesChanged = (): void => {
+    this.entries = [...window.toolSystem.toolConsole.getEntries()];
+  };
+
+  private clear(): void {
+    window.toolSystem.toolConsole.clear();
+  }
+
+  private get visibleEntries(): ConsoleEntry[] {
+    const text = this.text.toLowerCase();
+    return this.entries.filter(
+      (entry) =>
+        (this.level === "all" || entry.level === this.level) &&
+        (!this.toolFilter || entry.toolName === this.toolFilter) &&
+        (!text || entry.message.toLowerCase().includes(text))
+    );
+  }
+
+  private get scroller(): Element | null {
+    return this.panel?.shadowRoot?.querySelector(".content") ?? null;
+  }
+
+  protected willUpdate(): void {
+    const scroller = this.scroller;
+    this.atBottom =
+      !scroller ||
+      scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight < 8;
+  }
+
+  protected updated(): void {
+    // Follow new entries unless the user scrolled up to read older ones.
+    const scroller = this.scroller;
+    if (scroller && this.atBottom) scroller.scrollTop = scroller.scrollHeight;
+  }
+
+  private renderEntry(entry: ConsoleEntry) {
+    const time = new Date(entry.time).toLocaleTimeString();
+    return html`
+      <div class="entry ${entry.level}">
+        <span class="source"
+          >${time}
+          [${entry.toolName}]${entry.handler ? ` ${entry.handler}` : ""}</span
+        >
+        ${entry.count > 1
+          ? html`<span class="count">${entry.count}</span>`
+          : null}
+        ${entry.message}
+        ${entry.stack.map(
+          (frame) =>
+            html`<div class="frame">
+              at ${frame.functionName ?? "tool code"} (line
+              ${frame.line}:${frame.column})
+            </div>`
+        )}
+      </div>
+    `;
+  }
+
+  render() {
+    const tools = [...new Set(this.entries.map((entry) => entry.toolName))];
+    const entries = this.visibleEntries;
+
+    return html`
+      <generic-panel>
+        <div slot="header" class="header-content">
+          <span class="header-title">Console</span>
+          <div class="header-spacer"></div>
+          <div class="header-actions">
+            <panel-button @click=${this.clear}>Clear</panel-button>
+          </div>
+        </div>
+
+        <div class="filters">
+          <select
+            .value=${this.level}
+            @change=${(e: Event) =>
+              (this.level = (e.target as HTMLSelectElement)
+                .value as LevelFilter)}
+          >
+            <option value="all">All</option>
+            <option value="log">Logs</option>
+            <option value="info">Info</option>
+            <option value="warn">Warnings</option>
+            <option value="error">Errors</option>
+          </select>
+          <select
+            .value=${this.toolFilter}
+            @change=${(e: Event) =>
+              (this.toolFilter = (e.target as HTMLSelectElement).value)}
+          >
+            <option value="">All tools</option>
+            ${tools.map(
+              (name) =>
+                html`<option
+                  value=${name}
+                  ?selected=${name === this.toolFilter}
+                >
+                  ${name}
+                </option>`
+            )}
+          </select>
+          <input
+            type="search"
+            placeholder="Filter"
+            .value=${this.text}
+            @input=${(e: Event) =>
+              (this.text = (e.target as HTMLInputElement).value)}
+          />
+        </div>
+
+        <div class="entries">
+          ${entries.length === 0
+            ? html`<div class="empty">
+                ${this.entries.length === 0
+                  ? "Logs and errors from tool code appear here."
+                  : "No entries match the filter."}
+              </div>`
+            : entries.map((entry) => this.renderEntry(entry))}
+        </div>
+      </generic-panel>
+    `;
+  }
+}
+
+customElements.define("console-panel", ConsolePanel);
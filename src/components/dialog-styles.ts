@@ -0,0 +1,94 @@
+import { css } from "lit";
+
+/** Shared look for the modal dialogs opened from the menu bar. */
+export const dialogStyles = css`
+  dialog {
+    border: 1px solid var(--border-a);
+    border-radius: var(--radius);
+    background: var(--bg-a);
+    color: var(--text-a);
+    font-family: var(--font-family);
+    font-size: var(--font-size);
+    padding: 0;
+    min-width: 320px;
+  }
+
+  dialog::backdrop {
+    background: rgba(0, 0, 0, 0.3);
+  }
+
+  .header {
+    padding: calc(var(--space-unit) / 2) var(--space-unit);
+    background: var(--header-bg);
+    font-weight: 600;
+    min-height: 28px;
+    display: flex;
+    align-items: center;
+  }
+
+  .body {
+    display: flex;
+    flex-direction: column;
+    gap: var(--space-unit);
+    padding: var(--space-unit);
+  }
+
+  .row {
+    display: flex;
+    align-items: center;
+    gap: calc(var(--space-unit) / 2);
+  }
+
+  .row > label:first-child {
+    flex: 0 0 90px;
+    color: var(--text-b);
+  }
+
+  select,
+  input[type="number"],
+  input[type="text"] {
+    flex: 1;
+    min-width: 0;
+    font-family: var(--font-family);
+    font-size: var(--font-size);
+    padding: 2px 4px;
+    border: 1px solid var(--border-a);
+    border-radius: calc(var(--radius) / 2);
+    background: var(--bg-b);
+    color: var(--text-a);
+  }
+
+  input[type="color"] {
+    width: 32px;
+    height: 24px;
+    border: 1px solid var(--border-a);
+    border-radius: var(--radius);
+    padding: 0;
+    background: none;
+  }
+
+  .info {
+    font-family: var(--font-mono, monospace);
+    font-size: 0.85em;
+    color: var(--text-b);
+  }
+
+  .error {
+    color: var(--error, red);
+  }
+
+  .warning {
+    padding: calc(var(--space-unit) / 2) var(--space-unit);
+    border: 1px solid var(--border-b);
+    border-radius: calc(var(--radius) / 2);
+    background: var(--bg-b);
+  }
+
+  .actions {
+    display: flex;
+    justify-content: flex-end;
+    gap: calc(var(--space-unit) / 2);
+    padding: var(--space-unit);
+    border-top: 1px solid var(--border-a);
+  }
+`;
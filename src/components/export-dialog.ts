@@ -0,0 +1,240 @@
+import { LitElement, html } from "lit";
+import { state, query } from "lit/decorators.js";
+import { exportToBlob, getExportBounds, CSS_DPI } from "../exporter.js";
+import type { ExportFormat, ExportArea } from "../exporter.js";
+import { downloadBlob } from "../file-utils.js";
+import { dialogStyles } from "./dialog-styles.js";
+import "./panel-button.js";
+
+export class ExportDialog extends LitElement {
+  static styles = dialogStyles;
+
+  @query("dialog")
+  private dialog!: HTMLDialogElement;
+
+  @state()
+  private format: ExportFormat = "png";
+
+  @state()
+  private area: ExportArea = "content";
+
+  @state()
+  private scale: number = 2;
+
+  @state()
+  private transparent: boolean = true;
+
+  @state()
+  private background: string = "#ffffff";
+
+  @state()
+  private quality: number = 0.92;
+
+  @state()
+  private fileName: string = "drawing";
+
+  @state()
+  private error: string = "";
+
+  @state()
+  private busy: boolean = false;
+
+  /** Paper.js item selected in the outline when the dialog was opened. */
+  private selection: any = null;
+
+  /**
+   * Show the dialog. `selection` is the item currently selected in the
+   * outline panel, if any.
+   */
+  open(selection: any = null): void {
+    this.selection = selection;
+    if (!selection && this.area === "selection") this.area = "content";
+    this.error = "";
+    this.dialog.showModal();
+  }
+
+  close(): void {
+    this.dialog.close();
+  }
+
+  private get outputSize(): string {
+    const bounds = getExportBounds(this.area, this.selection);
+    if (!bounds) return "Nothing to export";
+    if (this.format === "svg") {
+      return `${Math.round(bounds.width)} × ${Math.round(bounds.height)} units`;
+    }
+    return `${Math.max(1, Math.round(bounds.width * this.scale))} × ${Math.max(
+      1,
+      Math.round(bounds.height * this.scale)
+    )} px`;
+  }
+
+  private async handleExport(): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    this.error = "";
+    try {
+      const blob = await exportToBlob({
+        format: this.format,
+        area: this.area,
+        scale: this.scale,
+        background: this.transparent ? null : this.background,
+        quality: this.quality,
+        selection: this.selection,
+      });
+      const extension = this.format === "jpeg" ? "jpg" : this.format;
+      downloadBlob(blob, `${this.fileName || "drawing"}.${extension}`);
+      this.close();
+    } catch (err) {
+      console.error("Export failed:", err);
+      this.error = err instanceof Error ? err.message : String(err);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private handleScaleInput(event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (value > 0) this.scale = value;
+  }
+
+  private handleDpiInput(event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (value > 0) this.scale = value / CSS_DPI;
+  }
+
+  render() {
+    const raster = this.format !== "svg";
+
+    return html`
+      <dialog @close=${() => (this.busy = false)}>
+        <div class="header">Export</div>
+        <div class="body">
+          <div class="row">
+            <label for="file-name">File name</label>
+            <input
+              id="file-name"
+              type="text"
+              .value=${this.fileName}
+              @input=${(e: Event) =>
+                (this.fileName = (e.target as HTMLInputElement).value)}
+            />
+          </div>
+
+          <div class="row">
+            <label for="format">Format</label>
+            <select
+              id="format"
+              .value=${this.format}
+              @change=${(e: Event) =>
+                (this.format = (e.target as HTMLSelectElement)
+                  .value as ExportFormat)}
+            >
+              <option value="svg">SVG (vector)</option>
+              <option value="png">PNG</option>
+              <option value="jpeg">JPEG</option>
+            </select>
+          </div>
+
+          <div class="row">
+            <label for="area">Area</label>
+            <select
+              id="area"
+              .value=${this.area}
+              @change=${(e: Event) =>
+                (this.area = (e.target as HTMLSelectElement)
+                  .value as ExportArea)}
+            >
+              <option value="canvas">Whole canvas</option>
+              <option value="content">Content bounds</option>
+              <option value="selection" ?disabled=${!this.selection}>
+                Selected item
+              </option>
+            </select>
+          </div>
+
+          ${raster
+            ? html`
+                <div class="row">
+                  <label for="scale">Scale</label>
+                  <input
+                    id="scale"
+                    type="number"
+                    min="0.1"
+                    step="0.5"
+                    .value=${String(this.scale)}
+                    @input=${this.handleScaleInput}
+                  />
+                  <label for="dpi">DPI</label>
+                  <input
+                    id="dpi"
+                    type="number"
+                    min="1"
+                    step="1"
+                    .value=${String(Math.round(this.scale * CSS_DPI))}
+                    @input=${this.handleDpiInput}
+                  />
+                </div>
+              `
+            : null}
+          ${this.format === "jpeg"
+            ? html`
+                <div class="row">
+                  <label for="quality">Quality</label>
+                  <input
+                    id="quality"
+                    type="number"
+                    min="0.1"
+                    max="1"
+                    step="0.05"
+                    .value=${String(this.quality)}
+                    @input=${(e: Event) =>
+                      (this.quality = Math.min(
+                        1,
+                        Math.max(
+                          0.1,
+                          parseFloat((e.target as HTMLInputElement).value) ||
+                            0.92
+                        )
+                      ))}
+                  />
+                </div>
+              `
+            : null}
+
+          <div class="row">
+            <label>Background</label>
+            <label>
+              <input
+                type="checkbox"
+                .checked=${this.transparent}
+                @change=${(e: Event) =>
+                  (this.transparent = (e.target as HTMLInputElement).checked)}
+              />
+              Transparent
+            </label>
+            <input
+              type="color"
+              .value=${this.background}
+              ?disabled=${this.transparent}
+              @input=${(e: Event) =>
+                (this.background = (e.target as HTMLInputElement).value)}
+              title="Background colour"
+            />
+          </div>
+
+          <div class="info">${this.outputSize}</div>
+          ${this.error ? html`<div class="error">${this.error}</div>` : null}
+        </div>
+        <div class="actions">
+          <panel-button @click=${this.close}>Cancel</panel-button>
+          <panel-button variant="primary" @click=${this.handleExport}>
+            ${this.busy ? "Exporting…" : "Export"}
+          </panel-button>
+        </div>
+      </dialog>
+    `;
+  }
+}
+
+customElements.define("export-dialog", ExportDialog);
@@ -0,0 +1,261 @@
+import { LitElement, html, css } from "lit";
+import { state, query } from "lit/decorators.js";
+import type { StabilizerSettings } from "../stroke-stabilizer.js";
+import { DEFAULT_STABILIZER_SETTINGS } from "../stroke-stabilizer.js";
+import type {
+  DeviceType,
+  DeviceProfile,
+  PressureCurve,
+} from "../device-profiles.js";
+import { DEVICE_TYPES, DEFAULT_DEVICE_PROFILE } from "../device-profiles.js";
+import { dialogStyles } from "./dialog-styles.js";
+import "./panel-button.js";
+import "./pressure-curve-editor.js";
+
+/**
+ * Settings for the input pipeline that sits between the pointer and the
+ * tools. Changes apply immediately and are remembered across sessions.
+ */
+export class InputSettingsDialog extends LitElement {
+  static styles = [
+    dialogStyles,
+    css`
+      input[type="range"] {
+        flex: 1;
+      }
+
+      .value {
+        min-width: 48px;
+        text-align: right;
+      }
+
+      .section {
+        font-weight: 600;
+        color: var(--text-b);
+      }
+    `,
+  ];
+
+  @query("dialog")
+  private dialog!: HTMLDialogElement;
+
+  @state()
+  private stabilizer: StabilizerSettings = { ...DEFAULT_STABILIZER_SETTINGS };
+
+  /** Device whose pressure / tilt profile is being edited. */
+  @state()
+  private device: DeviceType = "pen";
+
+  @state()
+  private profile: DeviceProfile = DEFAULT_DEVICE_PROFILE;
+
+  open(): void {
+    this.stabilizer = window.inputSystem.stabilizer.getSettings();
+    this.profile = window.inputSystem.deviceProfiles.get(this.device);
+    this.dialog.showModal();
+  }
+
+  close(): void {
+    this.dialog.close();
+  }
+
+  private updateStabilizer(changes: Partial<StabilizerSettings>): void {
+    const stabilizer = window.inputSystem.stabilizer;
+    stabilizer.update(changes);
+    this.stabilizer = stabilizer.getSettings();
+  }
+
+  private selectDevice(device: DeviceType): void {
+    this.device = device;
+    this.profile = window.inputSystem.deviceProfiles.get(device);
+  }
+
+  private updateProfile(changes: Partial<DeviceProfile>): void {
+    const profiles = window.inputSystem.deviceProfiles;
+    profiles.set(this.device, { ...this.profile, ...changes });
+    this.profile = profiles.get(this.device);
+  }
+
+  private updateCurve(changes: Partial<PressureCurve>): void {
+    this.updateProfile({ pressure: { ...this.profile.pressure, ...changes } });
+  }
+
+  private resetDefaults(): void {
+    this.updateStabilizer(DEFAULT_STABILIZER_SETTINGS);
+    this.updateProfile(DEFAULT_DEVICE_PROFILE);
+  }
+
+  private renderDeviceSettings() {
+    const curve = this.profile.pressure;
+    return html`
+      <div class="section">Pressure &amp; tilt</div>
+      <div class="row">
+        <label for="device">Device</label>
+        <select
+          id="device"
+          .value=${this.device}
+          @change=${(e: Event) =>
+            this.selectDevice(
+              (e.target as HTMLSelectElement).value as DeviceType
+            )}
+        >
+          ${DEVICE_TYPES.map(
+            (type) =>
+              html`<option value=${type} ?selected=${type === this.device}>
+                ${type.charAt(0).toUpperCase() + type.slice(1)}
+              </option>`
+          )}
+        </select>
+      </div>
+      <div class="row">
+        <label for="curve-mode">Curve</label>
+        <select
+          id="curve-mode"
+          .value=${curve.mode}
+          @change=${(e: Event) =>
+            this.updateCurve({
+              mode: (e.target as HTMLSelectElement)
+                .value as PressureCurve["mode"],
+            })}
+        >
+          <option value="gamma" ?selected=${curve.mode === "gamma"}>
+            Gamma
+          </option>
+          <option value="bezier" ?selected=${curve.mode === "bezier"}>
+            Bezier
+          </option>
+        </select>
+      </div>
+      ${curve.mode === "gamma"
+        ? html`
+            <div class="row">
+              <label>Gamma</label>
+              <input
+                type="range"
+                min="0.2"
+                max="3"
+                step="0.05"
+                .value=${String(curve.gamma)}
+                @input=${(e: Event) =>
+                  this.updateCurve({
+                    gamma: parseFloat((e.target as HTMLInputElement).value),
+                  })}
+              />
+              <span class="value info">${curve.gamma.toFixed(2)}</span>
+            </div>
+          `
+        : null}
+      <div class="row">
+        <label></label>
+        <pressure-curve-editor
+          .curve=${curve}
+          @curve-change=${(e: CustomEvent<PressureCurve>) =>
+            this.updateCurve({ bezier: e.detail.bezier })}
+        ></pressure-curve-editor>
+      </div>
+      <div class="row">
+        <label>Tilt</label>
+        <input
+          type="checkbox"
+          .checked=${this.profile.tilt}
+          @change=${(e: Event) =>
+            this.updateProfile({
+              tilt: (e.target as HTMLInputElement).checked,
+            })}
+        />
+        <label for="azimuth-offset">Rotate</label>
+        <input
+          id="azimuth-offset"
+          type="number"
+          step="15"
+          .value=${String(this.profile.azimuthOffset)}
+          ?disabled=${!this.profile.tilt}
+          @input=${(e: Event) =>
+            this.updateProfile({
+              azimuthOffset:
+                parseFloat((e.target as HTMLInputElement).value) || 0,
+            })}
+        />
+      </div>
+    `;
+  }
+
+  private renderSlider(
+    label: string,
+    key: "stringLength" | "smoothing" | "pressureSmoothing",
+    min: number,
+    max: number,
+    step: number,
+    format: (value: number) => string
+  ) {
+    const value = this.stabilizer[key];
+    return html`
+      <div class="row">
+        <label>${label}</label>
+        <input
+          type="range"
+          min=${min}
+          max=${max}
+          step=${step}
+          .value=${String(value)}
+          ?disabled=${!this.stabilizer.enabled}
+          @input=${(e: Event) =>
+            this.updateStabilizer({
+              [key]: parseFloat((e.target as HTMLInputElement).value),
+            })}
+        />
+        <span class="value info">${format(value)}</span>
+      </div>
+    `;
+  }
+
+  render() {
+    return html`
+      <dialog>
+        <div class="header">Input Settings</div>
+        <div class="body">
+          <div class="section">Stroke stabilizer</div>
+          <div class="row">
+            <label>Enabled</label>
+            <input
+              type="checkbox"
+              .checked=${this.stabilizer.enabled}
+              @change=${(e: Event) =>
+                this.updateStabilizer({
+                  enabled: (e.target as HTMLInputElement).checked,
+                })}
+            />
+          </div>
+          ${this.renderSlider("String", "stringLength", 0, 100, 1, (v) =>
+            v === 0 ? "off" : `${v} px`
+          )}
+          ${this.renderSlider("Smoothing", "smoothing", 1, 16, 1, (v) =>
+            v === 1 ? "off" : `${v} pts`
+          )}
+          ${this.renderSlider(
+            "Pressure",
+            "pressureSmoothing",
+            0,
+            0.95,
+            0.05,
+            (v) => (v === 0 ? "off" : `${Math.round(v * 100)}%`)
+          )}
+          <div class="info">
+            The string makes the stroke trail behind the pointer and only move
+            once pulled tight, which removes jitter from mouse and touch input.
+          </div>
+
+          ${this.renderDeviceSettings()}
+        </div>
+        <div class="actions">
+          <panel-button @click=${this.resetDefaults}>Defaults</panel-button>
+          <panel-button variant="primary" @click=${this.close}>
+            Done
+          </panel-button>
+        </div>
+      </dialog>
+    `;
+  }
+}
+
+customElements.define("input-settings-dialog", InputSettingsDialog);
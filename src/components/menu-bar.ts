@@ -1,4 +1,5 @@
 import { LitElement, html, css } from "lit";
+import { property } from "lit/decorators.js";
 
 export class MenuBar extends LitElement {
   static styles = css`
@@ -49,6 +50,12 @@ export class MenuBar extends LitElement {
       background: var(--border-a);
     }
 
+    .menu-button:disabled {
+      color: var(--text-b);
+      cursor: default;
+      background: transparent;
+    }
+
     .menu-separator {
       width: 1px;
       height: 20px;
@@ -66,6 +73,14 @@ export class MenuBar extends LitElement {
       flex-grow: 1;
     }
 
+    .zoom-level {
+      font-family: var(--font-mono);
+      font-size: 0.85em;
+      color: var(--text-b);
+      min-width: 44px;
+      text-align: right;
+    }
+
     /* Support for slotted content */
     ::slotted(.menu-section) {
       display: flex;
@@ -101,6 +116,25 @@ export class MenuBar extends LitElement {
     }
   `;
 
+  @property({ type: Boolean })
+  canUndo: boolean = false;
+
+  @property({ type: Boolean })
+  canRedo: boolean = false;
+
+  @property({ type: Boolean })
+  recording: boolean = false;
+
+  @property({ type: Boolean })
+  replaying: boolean = false;
+
+  @property({ type: Boolean })
+  hasRecording: boolean = false;
+
+  /** Current view zoom, shown next to the zoom buttons. */
+  @property({ type: Number })
+  zoom: number = 1;
+
   private handleMenuAction(action: string) {
     // Dispatch custom event for menu actions
     this.dispatchEvent(
@@ -146,21 +180,94 @@ export class MenuBar extends LitElement {
         <button
           class="menu-button"
           @click="${() => this.handleMenuAction("undo")}"
-          title="Undo"
+          ?disabled=${!this.canUndo}
+          title="Undo (Ctrl/Cmd+Z)"
         >
           Undo
         </button>
         <button
           class="menu-button"
           @click="${() => this.handleMenuAction("redo")}"
-          title="Redo"
+          ?disabled=${!this.canRedo}
+          title="Redo (Shift+Ctrl/Cmd+Z)"
         >
           Redo
         </button>
       </div>
 
+      <div class="menu-separator"></div>
+
+      <div class="menu-section">
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("input-settings")}"
+          title="Stabilizer and other input settings"
+        >
+          Input
+        </button>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("record-input")}"
+          ?disabled=${this.replaying}
+          title="Record pointer and key input"
+        >
+          ${this.recording ? "Stop" : "Record"}
+        </button>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("replay-input")}"
+          ?disabled=${this.recording || (!this.hasRecording && !this.replaying)}
+          title="Replay the last recording"
+        >
+          ${this.replaying ? "Stop" : "Replay"}
+        </button>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("save-recording")}"
+          ?disabled=${!this.hasRecording}
+          title="Save the last recording to a file"
+        >
+          Save Rec
+        </button>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("open-recording")}"
+          ?disabled=${this.recording || this.replaying}
+          title="Open a recording file and replay it"
+        >
+          Open Rec
+        </button>
+      </div>
+
       <div class="spacer"></div>
 
+      <div class="menu-section">
+        <span class="zoom-level">${Math.round(this.zoom * 100)}%</span>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("zoom-fit")}"
+          title="Zoom to Fit"
+        >
+          Fit
+        </button>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("zoom-100")}"
+          title="Actual Size"
+        >
+          100%
+        </button>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("zoom-selection")}"
+          title="Zoom to Selection"
+        >
+          Selection
+        </button>
+      </div>
+
+      <div class="menu-separator"></div>
+
       <div class="menu-section">
         <button
           class="menu-button"
@@ -169,6 +276,13 @@ export class MenuBar extends LitElement {
         >
           Export
         </button>
+        <button
+          class="menu-button"
+          @click="${() => this.handleMenuAction("shortcuts")}"
+          title="Keyboard Shortcuts"
+        >
+          Keys
+        </button>
       </div>
 
       <!-- Allow for additional custom menu items -->
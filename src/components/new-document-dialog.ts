@@ -0,0 +1,183 @@
+import { LitElement, html } from "lit";
+import { state, query } from "lit/decorators.js";
+import type { PageSettings } from "../types.js";
+import { dialogStyles } from "./dialog-styles.js";
+import "./panel-button.js";
+
+interface PagePreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+/** Page presets in CSS pixels (96 DPI). */
+const PAGE_PRESETS: { [key: string]: PagePreset } = {
+  a4: { label: "A4 (210 × 297 mm)", width: 794, height: 1123 },
+  letter: { label: "Letter (8.5 × 11 in)", width: 816, height: 1056 },
+  hd: { label: "1080p (1920 × 1080)", width: 1920, height: 1080 },
+  square: { label: "Square (1080 × 1080)", width: 1080, height: 1080 },
+  custom: { label: "Custom", width: 800, height: 600 },
+};
+
+export class NewDocumentDialog extends LitElement {
+  static styles = dialogStyles;
+
+  @query("dialog")
+  private dialog!: HTMLDialogElement;
+
+  @state()
+  private preset: string = "a4";
+
+  @state()
+  private width: number = PAGE_PRESETS.a4.width;
+
+  @state()
+  private height: number = PAGE_PRESETS.a4.height;
+
+  @state()
+  private landscape: boolean = false;
+
+  @state()
+  private background: string = "#ffffff";
+
+  @state()
+  private hasUnsavedChanges: boolean = false;
+
+  /** Show the dialog, warning about unsaved work if there is any. */
+  open(): void {
+    this.hasUnsavedChanges = window.historyManager?.isDirty() ?? false;
+    this.dialog.showModal();
+  }
+
+  close(): void {
+    this.dialog.close();
+  }
+
+  private get pageSize(): { width: number; height: number } {
+    const { width, height } = this;
+    const swap = this.landscape ? width < height : width > height;
+    // Presets are portrait-first; the orientation toggle swaps the sides.
+    if (this.preset !== "custom" && swap) {
+      return { width: height, height: width };
+    }
+    return { width, height };
+  }
+
+  private handlePresetChange(event: Event): void {
+    this.preset = (event.target as HTMLSelectElement).value;
+    const preset = PAGE_PRESETS[this.preset];
+    if (this.preset !== "custom") {
+      this.width = preset.width;
+      this.height = preset.height;
+      this.landscape = preset.width > preset.height;
+    }
+  }
+
+  private handleCreate(): void {
+    const { width, height } = this.pageSize;
+    if (!(width > 0 && height > 0)) return;
+
+    const page: PageSettings = {
+      width,
+      height,
+      background: this.background,
+    };
+    window.paperManager?.newDocument(page);
+    this.close();
+  }
+
+  render() {
+    const custom = this.preset === "custom";
+    const { width, height } = this.pageSize;
+
+    return html`
+      <dialog>
+        <div class="header">New Document</div>
+        <div class="body">
+          ${this.hasUnsavedChanges
+            ? html`<div class="warning">
+                The current document has unsaved changes. They will be lost.
+              </div>`
+            : null}
+
+          <div class="row">
+            <label for="preset">Size</label>
+            <select
+              id="preset"
+              .value=${this.preset}
+              @change=${this.handlePresetChange}
+            >
+              ${Object.entries(PAGE_PRESETS).map(
+                ([key, preset]) =>
+                  html`<option value=${key}>${preset.label}</option>`
+              )}
+            </select>
+          </div>
+
+          ${custom
+            ? html`
+                <div class="row">
+                  <label for="width">Width</label>
+                  <input
+                    id="width"
+                    type="number"
+                    min="1"
+                    .value=${String(this.width)}
+                    @input=${(e: Event) =>
+                      (this.width =
+                        parseInt((e.target as HTMLInputElement).value) || 0)}
+                  />
+                  <label for="height">Height</label>
+                  <input
+                    id="height"
+                    type="number"
+                    min="1"
+                    .value=${String(this.height)}
+                    @input=${(e: Event) =>
+                      (this.height =
+                        parseInt((e.target as HTMLInputElement).value) || 0)}
+                  />
+                </div>
+              `
+            : html`
+                <div class="row">
+                  <label>Orientation</label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      .checked=${this.landscape}
+                      @change=${(e: Event) =>
+                        (this.landscape = (
+                          e.target as HTMLInputElement
+                        ).checked)}
+                    />
+                    Landscape
+                  </label>
+                </div>
+              `}
+
+          <div class="row">
+            <label for="background">Background</label>
+            <input
+              id="background"
+              type="color"
+              .value=${this.background}
+              @input=${(e: Event) =>
+                (this.background = (e.target as HTMLInputElement).value)}
+            />
+          </div>
+
+          <div class="info">${width} × ${height} px</div>
+        </div>
+        <div class="actions">
+          <panel-button @click=${this.close}>Cancel</panel-button>
+          <panel-button variant="primary" @click=${this.handleCreate}>
+            ${this.hasUnsavedChanges ? "Discard & Create" : "Create"}
+          </panel-button>
+        </div>
+      </dialog>
+    `;
+  }
+}
+
+customElements.define("new-document-dialog", NewDocumentDialog);
@@ -228,9 +228,11 @@ export class OutlinePanel extends LitElement {
 
     const onToolChanged = () => this.updateOutline();
     const onProjectChanged = () => this.updateOutline();
+    const onDocumentReset = () => this.resetState();
 
     window.paperManager.addEventListener("toolChanged", onToolChanged);
     window.paperManager.addEventListener("projectChanged", onProjectChanged);
+    window.paperManager.addEventListener("documentReset", onDocumentReset);
 
     this.disposers.push(() => {
       window.paperManager.removeEventListener("toolChanged", onToolChanged);
@@ -238,9 +240,20 @@ export class OutlinePanel extends LitElement {
         "projectChanged",
         onProjectChanged
       );
+      window.paperManager.removeEventListener("documentReset", onDocumentReset);
     });
   }
 
+  /** Forget selection, expansion and drag state of the previous document. */
+  private resetState(): void {
+    this.selectedItemId = null;
+    this.expandedItems = new Set();
+    this.draggedItemId = null;
+    this.dropTargetId = null;
+    this.dropPosition = null;
+    this.updateOutline();
+  }
+
   private updateOutline(): void {
     if (!window.project) {
       this.outline = [];
@@ -289,6 +302,12 @@ export class OutlinePanel extends LitElement {
     return fallback;
   }
 
+  /** Paper.js item currently selected in the outline, if any. */
+  getSelectedItem(): any | null {
+    if (!this.selectedItemId) return null;
+    return this.findItemById(this.selectedItemId)?.paperItem ?? null;
+  }
+
   private handleItemClick(item: OutlineItem, event: Event): void {
     event.stopPropagation();
 
@@ -1,4 +1,5 @@
 import { LitElement, html, css } from "lit";
+import { state } from "lit/decorators.js";
 
 export class PaperCanvas extends LitElement {
   static styles = css`
@@ -46,12 +47,62 @@ export class PaperCanvas extends LitElement {
       pointer-events: none;
       z-index: 1;
     }
+
+    :host([busy]) ::slotted(canvas) {
+      cursor: progress;
+    }
+
+    .busy {
+      position: absolute;
+      top: var(--space-unit);
+      right: var(--space-unit);
+      z-index: 2;
+      padding: calc(var(--space-unit) / 2) var(--space-unit);
+      border-radius: var(--radius);
+      background: var(--bg-b);
+      color: var(--text-b);
+      font-size: 0.85em;
+      pointer-events: none;
+    }
   `;
 
+  /** Names of tools whose async hooks are still running. */
+  @state()
+  private busyTools: string[] = [];
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.setupEventListeners();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    window.toolSystem?.removeBusyListener(this.handleBusyChanged);
+  }
+
+  private setupEventListeners(): void {
+    if (!window.toolSystem) {
+      setTimeout(() => this.setupEventListeners(), 100);
+      return;
+    }
+    window.toolSystem.addBusyListener(this.handleBusyChanged);
+  }
+
+  private handleBusyChanged = (toolName: string, busy: boolean): void => {
+    const others = this.busyTools.filter((name) => name !== toolName);
+    this.busyTools = busy ? [...others, toolName] : others;
+    this.toggleAttribute("busy", this.busyTools.length > 0);
+  };
+
   render() {
     return html`
       <div class="canvas-container">
         <slot></slot>
+        ${this.busyTools.length > 0
+          ? html`<div class="busy" role="status">
+              ${this.busyTools.join(", ")} working…
+            </div>`
+          : null}
       </div>
     `;
   }
@@ -0,0 +1,130 @@
+import { LitElement, html, css, svg } from "lit";
+import { property } from "lit/decorators.js";
+import type { PressureCurve } from "../device-profiles.js";
+import { mapPressure } from "../device-profiles.js";
+
+const SIZE = 140;
+const SAMPLES = 32;
+
+/**
+ * Graph of a pressure response curve (input → output). In bezier mode the
+ * two control points can be dragged; every change fires `curve-change` with
+ * the updated curve as detail.
+ */
+export class PressureCurveEditor extends LitElement {
+  @property({ attribute: false })
+  curve: PressureCurve = {
+    mode: "gamma",
+    gamma: 1,
+    bezier: [0.25, 0.25, 0.75, 0.75],
+  };
+
+  /** Index (0 or 1) of the control point being dragged. */
+  private dragging: number | null = null;
+
+  static styles = css`
+    :host {
+      display: inline-block;
+    }
+
+    svg {
+      background: var(--bg-b);
+      border: 1px solid var(--border-a);
+      border-radius: calc(var(--radius) / 2);
+      touch-action: none;
+    }
+
+    .grid {
+      stroke: var(--border-a);
+      stroke-width: 1;
+    }
+
+    .curve {
+      fill: none;
+      stroke: var(--accent, #007acc);
+      stroke-width: 2;
+    }
+
+    .handle-line {
+      stroke: var(--text-b);
+      stroke-dasharray: 2 2;
+    }
+
+    .handle {
+      fill: var(--bg-a);
+      stroke: var(--accent, #007acc);
+      stroke-width: 2;
+      cursor: grab;
+    }
+  `;
+
+  private toSvg(x: number, y: number): [number, number] {
+    return [x * SIZE, (1 - y) * SIZE];
+  }
+
+  private handlePointerDown(index: number, ev: PointerEvent): void {
+    this.dragging = index;
+    (ev.target as Element).setPointerCapture(ev.pointerId);
+  }
+
+  private handlePointerMove(ev: PointerEvent): void {
+    if (this.dragging === null) return;
+    const rect = (ev.currentTarget as SVGElement).getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    const x = clamp((ev.clientX - rect.left) / rect.width);
+    const y = clamp(1 - (ev.clientY - rect.top) / rect.height);
+
+    const bezier = [...this.curve.bezier] as PressureCurve["bezier"];
+    bezier[this.dragging * 2] = Math.round(x * 100) / 100;
+    bezier[this.dragging * 2 + 1] = Math.round(y * 100) / 100;
+    this.curve = { ...this.curve, bezier };
+    this.dispatchEvent(new CustomEvent("curve-change", { detail: this.curve }));
+  }
+
+  private handlePointerUp(): void {
+    this.dragging = null;
+  }
+
+  render() {
+    const points: string[] = [];
+    for (let i = 0; i <= SAMPLES; i++) {
+      const x = i / SAMPLES;
+      points.push(this.toSvg(x, mapPressure(this.curve, x)).join(","));
+    }
+
+    const [x1, y1, x2, y2] = this.curve.bezier;
+    const p1 = this.toSvg(x1, y1);
+    const p2 = this.toSvg(x2, y2);
+    const bezier = this.curve.mode === "bezier";
+
+    return html`
+      <svg
+        width=${SIZE}
+        height=${SIZE}
+        viewBox="0 0 ${SIZE} ${SIZE}"
+        @pointermove=${this.handlePointerMove}
+        @pointerup=${this.handlePointerUp}
+        @pointercancel=${this.handlePointerUp}
+      >
+        <line class="grid" x1="0" y1=${SIZE} x2=${SIZE} y2="0" />
+        <polyline class="curve" points=${points.join(" ")} />
+        ${bezier
+          ? svg`
+              <line class="handle-line" x1="0" y1=${SIZE}
+                x2=${p1[0]} y2=${p1[1]} />
+              <line class="handle-line" x1=${SIZE} y1="0"
+                x2=${p2[0]} y2=${p2[1]} />
+              <circle class="handle" cx=${p1[0]} cy=${p1[1]} r="5"
+                @pointerdown=${(e: PointerEvent) =>
+                  this.handlePointerDown(0, e)} />
+              <circle class="handle" cx=${p2[0]} cy=${p2[1]} r="5"
+                @pointerdown=${(e: PointerEvent) =>
+                  this.handlePointerDown(1, e)} />
+            `
+          : null}
+      </svg>
+    `;
+  }
+}
+
+customElements.define("pressure-curve-editor", PressureCurveEditor);
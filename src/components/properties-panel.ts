@@ -0,0 +1,221 @@
+import { LitElement, html, css } from "lit";
+import { state } from "lit/decorators.js";
+import type { Tool } from "../tool-system.js";
+import type { ToolParameter } from "../tool-params.js";
+import "./generic-panel.js";
+
+/**
+ * Renders controls for the parameters declared by the active tool and pushes
+ * changes straight into the tool without recompiling it.
+ */
+export class PropertiesPanel extends LitElement {
+  @state()
+  private tool: Tool | null = null;
+
+  /** Disposers for event listeners */
+  private disposers: Array<() => void> = [];
+
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      height: 100%;
+    }
+
+    .param-list {
+      display: flex;
+      flex-direction: column;
+      gap: var(--space-unit);
+      padding: calc(var(--space-unit) / 2);
+    }
+
+    .param-row {
+      display: flex;
+      align-items: center;
+      gap: calc(var(--space-unit) / 2);
+    }
+
+    .param-label {
+      flex: 0 0 40%;
+      font-size: 0.85em;
+      color: var(--text-a);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .param-control {
+      flex: 1;
+      min-width: 0;
+    }
+
+    input[type="range"] {
+      width: 100%;
+    }
+
+    select {
+      width: 100%;
+      font-family: var(--font-family);
+      font-size: 0.85em;
+      border: 1px solid var(--border-a);
+      border-radius: calc(var(--radius) / 2);
+      background: var(--bg-b);
+      color: var(--text-a);
+    }
+
+    input[type="color"] {
+      width: 32px;
+      height: 24px;
+      border: 1px solid var(--border-a);
+      border-radius: var(--radius);
+      cursor: pointer;
+      background: none;
+      padding: 0;
+    }
+
+    .param-value {
+      font-family: var(--font-mono, monospace);
+      font-size: 0.75em;
+      color: var(--text-b);
+      min-width: 36px;
+      text-align: right;
+    }
+
+    .empty {
+      color: var(--text-b);
+      padding: calc(var(--space-unit) / 2);
+    }
+  `;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.setupEventListeners();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+
+  private setupEventListeners(): void {
+    if (!window.paperManager) {
+      setTimeout(() => this.setupEventListeners(), 100);
+      return;
+    }
+
+    // Both a tool switch and an Apply replace the active tool object.
+    const refresh = () => this.refresh();
+    window.paperManager.addEventListener("toolChanged", refresh);
+    window.paperManager.addEventListener("codeChanged", refresh);
+
+    // A held tool hotkey switches tools without a toolChanged event.
+    window.toolSystem.addActiveToolListener(refresh);
+
+    this.disposers.push(() => {
+      window.paperManager.removeEventListener("toolChanged", refresh);
+      window.paperManager.removeEventListener("codeChanged", refresh);
+      window.toolSystem.removeActiveToolListener(refresh);
+    });
+    this.refresh();
+  }
+
+  private refresh(): void {
+    this.tool = window.toolSystem?.getActiveTool() ?? null;
+    this.requestUpdate();
+  }
+
+  private setParam(key: string, value: unknown): void {
+    if (!this.tool) return;
+    window.toolSystem.setParam(this.tool.name, key, value);
+    this.requestUpdate();
+  }
+
+  private renderControl(key: string, param: ToolParameter, value: unknown) {
+    switch (param.type) {
+      case "number":
+        return html`
+          <input
+            class="param-control"
+            type="range"
+            min=${param.min ?? 0}
+            max=${param.max ?? 100}
+            step=${param.step ?? 1}
+            .value=${String(value)}
+            @input=${(e: Event) =>
+              this.setParam(key, (e.target as HTMLInputElement).value)}
+          />
+          <span class="param-value">${value}</span>
+        `;
+      case "boolean":
+        return html`
+          <input
+            type="checkbox"
+            .checked=${value === true}
+            @change=${(e: Event) =>
+              this.setParam(key, (e.target as HTMLInputElement).checked)}
+          />
+        `;
+      case "enum":
+        return html`
+          <select
+            class="param-control"
+            .value=${String(value)}
+            @change=${(e: Event) =>
+              this.setParam(key, (e.target as HTMLSelectElement).value)}
+          >
+            ${param.options.map(
+              (option) =>
+                html`<option value=${option} ?selected=${option === value}>
+                  ${option}
+                </option>`
+            )}
+          </select>
+        `;
+      case "color":
+        return html`
+          <input
+            type="color"
+            .value=${String(value)}
+            @input=${(e: Event) =>
+              this.setParam(key, (e.target as HTMLInputElement).value)}
+          />
+          <span class="param-value">${value}</span>
+        `;
+    }
+  }
+
+  render() {
+    const schema = this.tool?.parameters ?? {};
+    const entries = Object.entries(schema);
+
+    return html`
+      <generic-panel>
+        <div slot="header" class="header-content">
+          <span class="header-title">Properties</span>
+        </div>
+
+        ${entries.length === 0
+          ? html`<div class="empty">
+              ${this.tool
+                ? "This tool has no parameters."
+                : "No tool is active."}
+            </div>`
+          : html`<div class="param-list">
+              ${entries.map(
+                ([key, param]) => html`
+                  <div class="param-row">
+                    <span class="param-label" title=${key}
+                      >${param.label ?? key}</span
+                    >
+                    ${this.renderControl(key, param, this.tool?.params?.[key])}
+                  </div>
+                `
+              )}
+            </div>`}
+      </generic-panel>
+    `;
+  }
+}
+
+customElements.define("properties-panel", PropertiesPanel);
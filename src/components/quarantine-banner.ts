@@ -0,0 +1,94 @@
+import { LitElement, html, css } from "lit";
+import { state } from "lit/decorators.js";
+import type { PaperManagerEvent } from "../types.js";
+import "./panel-button.js";
+
+/**
+ * Explains why a tool stopped reacting after it was quarantined (see
+ * ToolSystem.quarantine) and offers to go back to its last working code.
+ * Hidden again once other code is applied or another tool is loaded.
+ */
+export class QuarantineBanner extends LitElement {
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .banner {
+      display: flex;
+      align-items: center;
+      gap: var(--space-unit);
+      padding: calc(var(--space-unit) / 2) var(--space-unit);
+      margin-bottom: calc(var(--space-unit) / 2);
+      border: 1px solid var(--error, red);
+      border-radius: var(--radius);
+      background: color-mix(in srgb, var(--error, red) 10%, transparent);
+      color: var(--text-a);
+      font-size: 0.85em;
+    }
+
+    .message {
+      flex: 1;
+    }
+  `;
+
+  @state()
+  private quarantine: PaperManagerEvent["toolQuarantined"] | null = null;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.setupEventListeners();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    const paperManager = window.paperManager;
+    if (!paperManager) return;
+    paperManager.removeEventListener("toolQuarantined", this.handleQuarantined);
+    paperManager.removeEventListener("toolChanged", this.handleDismiss);
+    paperManager.removeEventListener("codeChanged", this.handleDismiss);
+  }
+
+  private setupEventListeners(): void {
+    if (!window.paperManager) {
+      setTimeout(() => this.setupEventListeners(), 100);
+      return;
+    }
+    window.paperManager.addEventListener(
+      "toolQuarantined",
+      this.handleQuarantined
+    );
+    window.paperManager.addEventListener("toolChanged", this.handleDismiss);
+    window.paperManager.addEventListener("codeChanged", this.handleDismiss);
+  }
+
+  private handleQuarantined = (
+    event: PaperManagerEvent["toolQuarantined"]
+  ): void => {
+    this.quarantine = event;
+  };
+
+  private handleDismiss = (): void => {
+    this.quarantine = null;
+  };
+
+  private restore(): void {
+    window.paperManager.restoreWorkingCode();
+  }
+
+  render() {
+    if (!this.quarantine) return null;
+    return html`
+      <div class="banner" role="alert">
+        <span class="message">${this.quarantine.message}</span>
+        ${this.quarantine.canRestore
+          ? html`<panel-button @click=${this.restore}
+              >Use last working version</panel-button
+            >`
+          : null}
+      </div>
+    `;
+  }
+}
+
+customElements.define("quarantine-banner", QuarantineBanner);
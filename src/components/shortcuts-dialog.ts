@@ -0,0 +1,209 @@
+import { LitElement, html, css } from "lit";
+import { state, query } from "lit/decorators.js";
+import type { Command } from "../keymap.js";
+import { shortcutFromEvent, formatShortcut } from "../keymap.js";
+import { dialogStyles } from "./dialog-styles.js";
+import "./panel-button.js";
+
+/**
+ * Lists every command with its shortcuts and lets the user rebind them.
+ * Conflicting bindings are highlighted; the first registered command wins.
+ */
+export class ShortcutsDialog extends LitElement {
+  static styles = [
+    dialogStyles,
+    css`
+      dialog {
+        width: 480px;
+      }
+
+      .body {
+        max-height: 60vh;
+        overflow-y: auto;
+        gap: calc(var(--space-unit) / 2);
+      }
+
+      .category {
+        margin-top: calc(var(--space-unit) / 2);
+        font-weight: 600;
+        color: var(--text-b);
+      }
+
+      .command {
+        display: flex;
+        align-items: center;
+        gap: calc(var(--space-unit) / 2);
+      }
+
+      .command-label {
+        flex: 1;
+      }
+
+      .shortcut {
+        display: inline-flex;
+        align-items: center;
+        gap: 2px;
+        padding: 1px 4px;
+        border: 1px solid var(--border-a);
+        border-radius: calc(var(--radius) / 2);
+        background: var(--bg-b);
+        font-family: var(--font-mono, monospace);
+        font-size: 0.85em;
+      }
+
+      .shortcut.conflict {
+        border-color: var(--error, red);
+        color: var(--error, red);
+      }
+
+      .shortcut button,
+      .add {
+        border: none;
+        background: none;
+        color: var(--text-b);
+        cursor: pointer;
+        padding: 0 2px;
+        font-family: var(--font-family);
+      }
+
+      .capturing {
+        font-style: italic;
+        color: var(--text-b);
+      }
+    `,
+  ];
+
+  @query("dialog")
+  private dialog!: HTMLDialogElement;
+
+  /** Id of the command waiting for a new key combination. */
+  @state()
+  private capturing: string | null = null;
+
+  @state()
+  private message: string = "";
+
+  private handleKeymapChange = () => this.requestUpdate();
+
+  open(): void {
+    this.capturing = null;
+    this.message = "";
+    window.keymap.addListener(this.handleKeymapChange);
+    this.dialog.showModal();
+  }
+
+  close(): void {
+    this.dialog.close();
+  }
+
+  private handleClose(): void {
+    this.capturing = null;
+    window.keymap?.removeListener(this.handleKeymapChange);
+  }
+
+  /** While capturing, the next key combination becomes the new binding. */
+  private handleKeyDown(ev: KeyboardEvent): void {
+    if (!this.capturing) return;
+    // Keep the key away from the app (and Escape from closing the dialog).
+    ev.preventDefault();
+    ev.stopPropagation();
+
+    if (ev.key === "Escape") {
+      this.capturing = null;
+      return;
+    }
+    const shortcut = shortcutFromEvent(ev);
+    if (!shortcut) return; // lone modifier, wait for the real key
+
+    const id = this.capturing;
+    const keymap = window.keymap;
+    keymap.setBindings(id, [...keymap.getBindings(id), shortcut]);
+    const others = keymap.commandsFor(shortcut, id);
+    this.message = others.length
+      ? `${formatShortcut(shortcut)} is also used by ${others
+          .map((command) => command.label)
+          .join(", ")}.`
+      : "";
+    this.capturing = null;
+  }
+
+  private removeBinding(id: string, shortcut: string): void {
+    const keymap = window.keymap;
+    keymap.setBindings(
+      id,
+      keymap.getBindings(id).filter((s) => s !== shortcut)
+    );
+  }
+
+  private resetAll(): void {
+    window.keymap.resetAll();
+    this.message = "";
+  }
+
+  private renderCommand(command: Command) {
+    const keymap = window.keymap;
+    return html`
+      <div class="command">
+        <span class="command-label">${command.label}</span>
+        ${keymap.getBindings(command.id).map((shortcut) => {
+          const conflict = keymap.commandsFor(shortcut, command.id).length > 0;
+          return html`
+            <span
+              class="shortcut ${conflict ? "conflict" : ""}"
+              title=${conflict ? "Also bound to another command" : ""}
+            >
+              ${formatShortcut(shortcut)}
+              <button
+                title="Remove shortcut"
+                @click=${() => this.removeBinding(command.id, shortcut)}
+              >
+                ×
+              </button>
+            </span>
+          `;
+        })}
+        ${this.capturing === command.id
+          ? html`<span class="capturing">Press keys…</span>`
+          : html`<button
+              class="add"
+              title="Add shortcut"
+              @click=${() => (this.capturing = command.id)}
+            >
+              +
+            </button>`}
+      </div>
+    `;
+  }
+
+  render() {
+    const commands = window.keymap?.getCommands() ?? [];
+    const categories = [...new Set(commands.map((c) => c.category))];
+
+    return html`
+      <dialog @close=${this.handleClose} @keydown=${this.handleKeyDown}>
+        <div class="header">Keyboard Shortcuts</div>
+        <div class="body">
+          ${categories.map(
+            (category) => html`
+              <div class="category">${category}</div>
+              ${commands
+                .filter((command) => command.category === category)
+                .map((command) => this.renderCommand(command))}
+            `
+          )}
+        </div>
+        ${this.message
+          ? html`<div class="body error">${this.message}</div>`
+          : null}
+        <div class="actions">
+          <panel-button @click=${this.resetAll}>Reset to defaults</panel-button>
+          <panel-button variant="primary" @click=${this.close}>
+            Done
+          </panel-button>
+        </div>
+      </dialog>
+    `;
+  }
+}
+
+customElements.define("shortcuts-dialog", ShortcutsDialog);
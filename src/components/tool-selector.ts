@@ -1,11 +1,28 @@
 import { LitElement, html, css } from "lit";
-import { property } from "lit/decorators.js";
+import { property, state } from "lit/decorators.js";
 import { TOOL_TEMPLATES } from "../tool-templates.js";
-import type { PaperManagerEvent } from "../types.js";
+import {
+  createToolPackage,
+  findPackageCollision,
+  openToolPackage,
+  readToolPackage,
+  renameToolCode,
+  saveToolPackage,
+} from "../tool-package.js";
+import type { ToolPackage } from "../tool-package.js";
+import { isUserToolKey } from "../tool-library.js";
+import type { PaperManagerEvent, UserTool } from "../types.js";
 import "./generic-panel.js";
+import "./panel-button.js";
+import "./quarantine-banner.js";
 
 export class ToolSelector extends LitElement {
   static styles = css`
+    :host([dropping]) generic-panel {
+      outline: 2px dashed var(--primary);
+      outline-offset: -2px;
+    }
+
     .tool-button {
       display: block;
       width: 100%;
@@ -44,6 +61,55 @@ export class ToolSelector extends LitElement {
     .tool-button.active .tool-description {
       color: var(--bg-a);
     }
+
+    .section-title {
+      font-size: 0.85em;
+      font-weight: 600;
+      color: var(--text-b);
+      margin: var(--space-unit) 0 calc(var(--space-unit) / 2);
+    }
+
+    .tool-entry {
+      position: relative;
+    }
+
+    .tool-actions {
+      position: absolute;
+      top: calc(var(--space-unit) / 2);
+      right: calc(var(--space-unit) / 2);
+      display: none;
+      gap: 2px;
+    }
+
+    .tool-entry:hover .tool-actions,
+    .tool-entry .tool-button.active + .tool-actions {
+      display: flex;
+    }
+
+    .tool-action {
+      border: 1px solid var(--border-a);
+      border-radius: calc(var(--radius) / 2);
+      background: var(--bg-a);
+      color: var(--text-a);
+      font-size: 0.8em;
+      padding: 1px 4px;
+      cursor: pointer;
+    }
+
+    .tool-action:hover {
+      border-color: var(--primary);
+    }
+
+    .empty {
+      font-size: 0.9em;
+      color: var(--text-b);
+    }
+
+    .error {
+      color: var(--error, red);
+      font-size: 0.85em;
+      margin-bottom: var(--space-unit);
+    }
   `;
 
   @property({ type: String })
@@ -52,6 +118,13 @@ export class ToolSelector extends LitElement {
   @property({ type: String })
   error: string = "";
 
+  @state()
+  private userTools: UserTool[] = [];
+
+  /** Why the last import failed; cleared by the next import. */
+  @state()
+  private importError: string = "";
+
   connectedCallback(): void {
     super.connectedCallback();
     this.setupEventListeners();
@@ -72,11 +145,23 @@ export class ToolSelector extends LitElement {
         this.selectedTool = currentTool;
         this.requestUpdate();
       }
+
+      window.toolLibrary.addListener(this.handleLibraryChanged);
+      this.handleLibraryChanged();
     } else {
       setTimeout(() => this.setupEventListeners(), 100);
     }
   }
 
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    window.toolLibrary?.removeListener(this.handleLibraryChanged);
+  }
+
+  private handleLibraryChanged = (): void => {
+    this.userTools = window.toolLibrary.list();
+  };
+
   private handleToolChanged(event: PaperManagerEvent["toolChanged"]): void {
     this.selectedTool = event.toolName;
     this.error = "";
@@ -86,29 +171,226 @@ export class ToolSelector extends LitElement {
     this.error = event.message;
   }
 
+  private async importTool(): Promise<void> {
+    try {
+      this.importError = "";
+      const pkg = await openToolPackage();
+      if (pkg) this.addPackage(pkg);
+    } catch (err) {
+      this.importError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  /**
+   * Store an imported tool in the user library and load it. A name taken by
+   * a built-in tool, listed or declared in the code, has to be changed
+   * first; the new name is written into the code too.
+   */
+  private addPackage(pkg: ToolPackage): void {
+    let { name, code } = pkg.tool;
+    let taken = findPackageCollision(name, code);
+    while (taken !== null) {
+      const next = prompt(
+        `"${taken}" is the name of a built-in tool. Import it under another name:`,
+        `${name} (imported)`
+      );
+      if (next === null) return;
+      name = next;
+      code = renameToolCode(code, name.trim());
+      taken = findPackageCollision(name, code);
+    }
+    const key = window.toolLibrary.create(name, pkg.tool.description, code, {
+      author: pkg.tool.author,
+      version: pkg.tool.version,
+    });
+    this.selectTool(key);
+  }
+
+  /**
+   * Download a tool as a package. The tool open in the editor is exported
+   * with its current (possibly unsaved) code.
+   */
+  private exportTool(key: string): void {
+    const tool = window.paperManager?.resolveTool(key);
+    if (!tool) return;
+    const userTool = isUserToolKey(key) ? (tool as UserTool) : null;
+    const author = prompt("Author", userTool?.author ?? "");
+    if (author === null) return;
+    if (userTool) window.toolLibrary.setAuthor(key, author);
+
+    const code =
+      key === window.paperManager.getCurrentToolName()
+        ? window.paperManager.getCurrentCode()
+        : tool.code;
+    saveToolPackage(
+      createToolPackage({
+        name: tool.name,
+        description: tool.description,
+        code,
+        author: author.trim(),
+        version: userTool?.version,
+      })
+    );
+  }
+
+  private handleDragOver = (e: DragEvent): void => {
+    if (!e.dataTransfer?.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    this.toggleAttribute("dropping", true);
+  };
+
+  private handleDragLeave = (e: DragEvent): void => {
+    // Leaving for a child element still counts as over the panel.
+    const next = e.relatedTarget as Node | null;
+    if (next && this.renderRoot.contains(next)) return;
+    this.toggleAttribute("dropping", false);
+  };
+
+  private handleDrop = async (e: DragEvent): Promise<void> => {
+    this.toggleAttribute("dropping", false);
+    const files = [...(e.dataTransfer?.files ?? [])];
+    if (files.length === 0) return;
+    e.preventDefault();
+    this.importError = "";
+    for (const file of files) {
+      try {
+        this.addPackage(await readToolPackage(file));
+      } catch (err) {
+        this.importError = `${file.name}: ${
+          err instanceof Error ? err.message : String(err)
+        }`;
+      }
+    }
+  };
+
   private selectTool(toolName: string): void {
     if (window.paperManager) {
       window.paperManager.loadTool(toolName);
     }
   }
 
+  private renameTool(tool: UserTool): void {
+    const name = prompt("Tool name", tool.name);
+    if (name === null) return;
+    const description = prompt("Description", tool.description);
+    try {
+      window.toolLibrary.rename(tool.key, name, description ?? undefined);
+    } catch (err) {
+      this.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  private duplicateTool(tool: UserTool): void {
+    const key = window.toolLibrary.duplicate(tool.key);
+    this.selectTool(key);
+  }
+
+  private deleteTool(tool: UserTool): void {
+    if (!confirm(`Delete the tool "${tool.name}"? This cannot be undone.`)) {
+      return;
+    }
+    window.toolLibrary.remove(tool.key);
+    // Fall back to a built-in tool if the deleted one was active.
+    if (this.selectedTool === tool.key) this.selectTool("stroke");
+  }
+
+  private renderToolButton(key: string, name: string, description: string) {
+    return html`
+      <button
+        class="tool-button ${this.selectedTool === key ? "active" : ""}"
+        @click=${() => this.selectTool(key)}
+      >
+        <div class="tool-name">${name}</div>
+        <div class="tool-description">${description}</div>
+      </button>
+    `;
+  }
+
+  private renderExportAction(key: string) {
+    return html`
+      <button
+        class="tool-action"
+        title="Export as a tool file"
+        @click=${() => this.exportTool(key)}
+      >
+        Export
+      </button>
+    `;
+  }
+
   render() {
     return html`
-      <generic-panel>
+      <generic-panel
+        @dragover=${this.handleDragOver}
+        @dragleave=${this.handleDragLeave}
+        @drop=${this.handleDrop}
+      >
         <div slot="header" class="header-content">
           <span class="header-title">Tools</span>
+          <div class="header-spacer"></div>
+          <div class="header-actions">
+            <panel-button
+              title="Import a tool file (or drop one here)"
+              @click=${this.importTool}
+              >Import</panel-button
+            >
+          </div>
         </div>
+        <quarantine-banner></quarantine-banner>
+        ${this.importError
+          ? html`<div class="error">${this.importError}</div>`
+          : null}
         ${Object.entries(TOOL_TEMPLATES).map(
           ([key, tool]) => html`
-            <button
-              class="tool-button ${this.selectedTool === key ? "active" : ""}"
-              @click=${() => this.selectTool(key)}
-            >
-              <div class="tool-name">${tool.name}</div>
-              <div class="tool-description">${tool.description}</div>
-            </button>
+            <div class="tool-entry">
+              ${this.renderToolButton(key, tool.name, tool.description)}
+              <div class="tool-actions">${this.renderExportAction(key)}</div>
+            </div>
           `
         )}
+
+        <div class="section-title">My Tools</div>
+        ${this.userTools.length === 0
+          ? html`<div class="empty">
+              Use "Save as" in the code editor to add your own tools, or import
+              a tool file.
+            </div>`
+          : this.userTools.map(
+              (tool) => html`
+                <div class="tool-entry">
+                  ${this.renderToolButton(
+                    tool.key,
+                    tool.name,
+                    tool.description
+                  )}
+                  <div class="tool-actions">
+                    <button
+                      class="tool-action"
+                      title="Rename"
+                      @click=${() => this.renameTool(tool)}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      class="tool-action"
+                      title="Duplicate"
+                      @click=${() => this.duplicateTool(tool)}
+                    >
+                      Copy
+                    </button>
+                    ${this.renderExportAction(tool.key)}
+                    <button
+                      class="tool-action"
+                      title="Delete"
+                      @click=${() => this.deleteTool(tool)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              `
+            )}
       </generic-panel>
     `;
   }
@@ -0,0 +1,239 @@
+/*
+ * DeviceProfiles – per pointer type (pen, touch, mouse) response settings.
+ *
+ * Every PointerData passes through apply() when it is created: the raw
+ * pressure is mapped through the device's pressure curve and the stylus tilt
+ * is converted to altitude / azimuth angles. The untouched device values stay
+ * available on `data.raw`.
+ */
+import type { PointerData } from "./tool-system.js";
+
+const STORAGE_KEY = "canvascode:device-profiles";
+
+export type DeviceType = "pen" | "touch" | "mouse";
+
+export const DEVICE_TYPES: DeviceType[] = ["pen", "touch", "mouse"];
+
+export interface PressureCurve {
+  mode: "gamma" | "bezier";
+  /** output = input ^ gamma; < 1 feels softer, > 1 firmer. */
+  gamma: number;
+  /**
+   * Control points [x1, y1, x2, y2] of a cubic bezier running from (0, 0) to
+   * (1, 1), like CSS `cubic-bezier()`.
+   */
+  bezier: [number, number, number, number];
+}
+
+export interface DeviceProfile {
+  pressure: PressureCurve;
+  /** When off, tilt is reported as zero (pen held upright). */
+  tilt: boolean;
+  /** Rotates the azimuth, in degrees (e.g. for a rotated tablet). */
+  azimuthOffset: number;
+}
+
+export type DeviceProfileMap = { [type in DeviceType]: DeviceProfile };
+
+export const DEFAULT_DEVICE_PROFILE: DeviceProfile = {
+  pressure: { mode: "gamma", gamma: 1, bezier: [0.25, 0.25, 0.75, 0.75] },
+  tilt: true,
+  azimuthOffset: 0,
+};
+
+export class DeviceProfiles {
+  private profiles: DeviceProfileMap;
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    this.profiles = this.load();
+  }
+
+  get(type: DeviceType): DeviceProfile {
+    return cloneProfile(this.profiles[type]);
+  }
+
+  /** Replace the profile of one device type and persist it. */
+  set(type: DeviceType, profile: DeviceProfile): void {
+    this.profiles[type] = sanitizeProfile(profile);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.profiles));
+    } catch (err) {
+      console.error("DeviceProfiles: could not store settings", err);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Complete freshly read pointer data: map pressure and tilt through the
+   * profile of its device and keep the device values on `raw`.
+   */
+  apply(data: Omit<PointerData, "altitude" | "azimuth" | "raw">): PointerData {
+    const profile = this.profiles[data.pointerType] ?? DEFAULT_DEVICE_PROFILE;
+    const raw = {
+      pressure: data.pressure,
+      tiltX: data.tiltX,
+      tiltY: data.tiltY,
+    };
+    const tiltX = profile.tilt ? raw.tiltX : 0;
+    const tiltY = profile.tilt ? raw.tiltY : 0;
+    const angles = tiltToAngles(tiltX, tiltY);
+
+    return {
+      ...data,
+      pressure: mapPressure(profile.pressure, raw.pressure),
+      tiltX,
+      tiltY,
+      altitude: angles.altitude,
+      azimuth: wrapAngle(
+        angles.azimuth + (profile.azimuthOffset * Math.PI) / 180
+      ),
+      raw,
+    };
+  }
+
+  addListener(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  private load(): DeviceProfileMap {
+    let stored: any = {};
+    try {
+      stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") ?? {};
+    } catch {
+      // Fall back to the defaults
+    }
+    const profiles = {} as DeviceProfileMap;
+    DEVICE_TYPES.forEach((type) => {
+      profiles[type] = stored[type]
+        ? sanitizeProfile(stored[type])
+        : cloneProfile(DEFAULT_DEVICE_PROFILE);
+    });
+    return profiles;
+  }
+}
+
+/* ---------- Pressure ---------- */
+
+/** Map a raw pressure (0–1) through a curve. */
+export function mapPressure(curve: PressureCurve, pressure: number): number {
+  const p = clamp01(pressure);
+  if (p === 0) return 0;
+  if (curve.mode === "bezier") return clamp01(evalBezier(curve.bezier, p));
+  return clamp01(Math.pow(p, curve.gamma));
+}
+
+/** y for a given x on a cubic bezier from (0, 0) to (1, 1). */
+function evalBezier(
+  [x1, y1, x2, y2]: [number, number, number, number],
+  x: number
+): number {
+  const component = (t: number, a: number, b: number) => {
+    const u = 1 - t;
+    return 3 * u * u * t * a + 3 * u * t * t * b + t * t * t;
+  };
+  // x(t) is monotonic because x1 and x2 are kept within [0, 1]; bisect.
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 24; i++) {
+    const mid = (lo + hi) / 2;
+    if (component(mid, x1, x2) < x) lo = mid;
+    else hi = mid;
+  }
+  return component((lo + hi) / 2, y1, y2);
+}
+
+/* ---------- Tilt ---------- */
+
+/**
+ * Convert tiltX / tiltY (degrees, -90…90) to altitude (0 = flat on the
+ * surface, π/2 = upright) and azimuth (0…2π, clockwise from the +x axis in
+ * screen space), following the Pointer Events spec.
+ */
+export function tiltToAngles(
+  tiltX: number,
+  tiltY: number
+): { altitude: number; azimuth: number } {
+  const tx = (tiltX * Math.PI) / 180;
+  const ty = (tiltY * Math.PI) / 180;
+
+  if (tiltX === 0 && tiltY === 0) {
+    return { altitude: Math.PI / 2, azimuth: 0 };
+  }
+  if (tiltX === 0) {
+    return {
+      altitude: Math.PI / 2 - Math.abs(ty),
+      azimuth: tiltY > 0 ? Math.PI / 2 : (3 * Math.PI) / 2,
+    };
+  }
+  if (tiltY === 0) {
+    return {
+      altitude: Math.PI / 2 - Math.abs(tx),
+      azimuth: tiltX > 0 ? 0 : Math.PI,
+    };
+  }
+
+  const tanX = Math.tan(tx);
+  const tanY = Math.tan(ty);
+  return {
+    altitude: Math.atan(1 / Math.hypot(tanX, tanY)),
+    azimuth: wrapAngle(Math.atan2(tanY, tanX)),
+  };
+}
+
+/* ---------- Helpers ---------- */
+
+function wrapAngle(angle: number): number {
+  const full = Math.PI * 2;
+  return ((angle % full) + full) % full;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+}
+
+function cloneProfile(profile: DeviceProfile): DeviceProfile {
+  return {
+    ...profile,
+    pressure: {
+      ...profile.pressure,
+      bezier: [...profile.pressure.bezier] as PressureCurve["bezier"],
+    },
+  };
+}
+
+function sanitizeProfile(profile: any): DeviceProfile {
+  const fallback = DEFAULT_DEVICE_PROFILE;
+  const pressure = profile?.pressure ?? {};
+  const bezier =
+    Array.isArray(pressure.bezier) &&
+    pressure.bezier.length === 4 &&
+    pressure.bezier.every((v: unknown) => typeof v === "number")
+      ? (pressure.bezier as number[])
+      : fallback.pressure.bezier;
+  const gamma =
+    typeof pressure.gamma === "number" && pressure.gamma > 0
+      ? pressure.gamma
+      : fallback.pressure.gamma;
+
+  return {
+    pressure: {
+      mode: pressure.mode === "bezier" ? "bezier" : "gamma",
+      gamma: Math.min(5, Math.max(0.1, gamma)),
+      // x coordinates must stay in [0, 1] for the curve to be a function.
+      bezier: [
+        clamp01(bezier[0]),
+        clamp01(bezier[1]),
+        clamp01(bezier[2]),
+        clamp01(bezier[3]),
+      ],
+    },
+    tilt: profile?.tilt !== false,
+    azimuthOffset:
+      typeof profile?.azimuthOffset === "number" ? profile.azimuthOffset : 0,
+  };
+}
@@ -0,0 +1,160 @@
+/*
+ * Document file – serialises the whole editor document (Paper.js project,
+ * global colours and the loaded tool) into a single JSON file and restores it.
+ */
+import type { DocumentSnapshot } from "./history-manager.js";
+import { downloadBlob, pickFile } from "./file-utils.js";
+
+export const DOCUMENT_FORMAT = "canvascode";
+export const DOCUMENT_VERSION = 1;
+export const DOCUMENT_EXTENSION = ".canvascode";
+
+export interface CanvasCodeDocument {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  /** Paper.js project as produced by `project.exportJSON({ asString: false })`. */
+  project: unknown;
+  activeLayer: number;
+  colors: { primary: string; secondary: string };
+  tool: { name: string | null; code: string };
+}
+
+/**
+ * Capture the artwork and colours of the live document.
+ */
+export function captureSnapshot(): DocumentSnapshot {
+  return {
+    project: window.project ? window.project.exportJSON() : "[]",
+    activeLayer: window.project
+      ? window.project.layers.indexOf(window.project.activeLayer)
+      : -1,
+    colors: {
+      primary: window.globalColors?.primary ?? "#007acc",
+      secondary: window.globalColors?.secondary ?? "#ff6b6b",
+    },
+  };
+}
+
+/**
+ * Replace the live artwork and colours with a snapshot. The caller is
+ * responsible for notifying listeners about the project change.
+ */
+export function applySnapshot(snapshot: DocumentSnapshot): void {
+  if (window.project) {
+    window.project.clear();
+    window.project.importJSON(snapshot.project);
+    const layers = window.project.layers;
+    const layer = layers[snapshot.activeLayer] ?? layers[layers.length - 1];
+    layer?.activate();
+  }
+
+  const colors = window.globalColors;
+  if (colors) {
+    if (colors.primary !== snapshot.colors.primary) {
+      colors.setPrimary(snapshot.colors.primary);
+    }
+    if (colors.secondary !== snapshot.colors.secondary) {
+      colors.setSecondary(snapshot.colors.secondary);
+    }
+    window.toolSystem?.dispatchColorChange({ ...snapshot.colors });
+  }
+}
+
+/** Build a document object from the current editor state. */
+export function serializeDocument(): CanvasCodeDocument {
+  const snapshot = captureSnapshot();
+  return {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    project: JSON.parse(snapshot.project),
+    activeLayer: snapshot.activeLayer,
+    colors: snapshot.colors,
+    tool: {
+      name: window.paperManager?.getCurrentToolName() ?? null,
+      code: window.paperManager?.getCurrentCode() ?? "",
+    },
+  };
+}
+
+/**
+ * Parse and validate the text of a document file.
+ * Throws a descriptive error if the file is not a CanvasCode document.
+ */
+export function parseDocument(text: string): CanvasCodeDocument {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!data || data.format !== DOCUMENT_FORMAT) {
+    throw new Error("File is not a CanvasCode document");
+  }
+  if (typeof data.version !== "number" || data.version > DOCUMENT_VERSION) {
+    throw new Error(
+      `Unsupported document version ${data.version} (expected ${DOCUMENT_VERSION} or lower)`
+    );
+  }
+  if (!Array.isArray(data.project)) {
+    throw new Error("Document is missing its project data");
+  }
+
+  return {
+    format: DOCUMENT_FORMAT,
+    version: data.version,
+    project: data.project,
+    activeLayer: typeof data.activeLayer === "number" ? data.activeLayer : -1,
+    colors: {
+      primary: data.colors?.primary ?? "#007acc",
+      secondary: data.colors?.secondary ?? "#ff6b6b",
+    },
+    tool: {
+      name: typeof data.tool?.name === "string" ? data.tool.name : null,
+      code: typeof data.tool?.code === "string" ? data.tool.code : "",
+    },
+  };
+}
+
+/**
+ * Load a parsed document into the editor: artwork, colours and the tool
+ * (with its possibly edited code). History starts fresh afterwards.
+ */
+export function applyDocument(doc: CanvasCodeDocument): void {
+  applySnapshot({
+    project: JSON.stringify(doc.project),
+    activeLayer: doc.activeLayer,
+    colors: doc.colors,
+  });
+
+  if (doc.tool.code) {
+    window.paperManager?.restoreTool(doc.tool.name, doc.tool.code);
+  }
+
+  window.paperManager?.notifyDocumentReset?.();
+  window.paperManager?.notifyProjectChanged?.();
+  window.view?.draw();
+}
+
+/** Serialise the current document and offer it as a download. */
+export function saveDocument(fileName: string = "drawing"): void {
+  const json = JSON.stringify(serializeDocument());
+  downloadBlob(
+    new Blob([json], { type: "application/json" }),
+    fileName.endsWith(DOCUMENT_EXTENSION)
+      ? fileName
+      : `${fileName}${DOCUMENT_EXTENSION}`
+  );
+  window.historyManager?.markSaved();
+}
+
+/**
+ * Let the user pick a document file and load it. Resolves with the file name
+ * once loaded, or null if the picker was dismissed.
+ */
+export async function openDocument(): Promise<string | null> {
+  const file = await pickFile(`${DOCUMENT_EXTENSION},application/json`);
+  if (!file) return null;
+  applyDocument(parseDocument(await file.text()));
+  return file.name;
+}
@@ -0,0 +1,181 @@
+/*
+ * Editor extensions – the CodeMirror setup of the tool code editor: JavaScript
+ * highlighting, line numbers, bracket matching, search / replace and markers
+ * for runtime errors.
+ */
+import { StateEffect, StateField, RangeSet } from "@codemirror/state";
+import type { Extension } from "@codemirror/state";
+import {
+  EditorView,
+  Decoration,
+  GutterMarker,
+  drawSelection,
+  gutter,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+} from "@codemirror/view";
+import type { DecorationSet } from "@codemirror/view";
+import {
+  bracketMatching,
+  HighlightStyle,
+  indentOnInput,
+  syntaxHighlighting,
+} from "@codemirror/language";
+import { indentWithTab } from "@codemirror/commands";
+import { closeBrackets, closeBracketsKeymap } from "@codemirror/autocomplete";
+import {
+  highlightSelectionMatches,
+  search,
+  searchKeymap,
+} from "@codemirror/search";
+import { javascript } from "@codemirror/lang-javascript";
+import { tags } from "@lezer/highlight";
+
+/* ---------- Runtime errors ---------- */
+
+export interface RuntimeError {
+  /** 1-based line in the editor. */
+  line: number;
+  message: string;
+}
+
+/** Mark a line as the origin of a runtime error; null clears the marker. */
+export const setRuntimeError = StateEffect.define<RuntimeError | null>();
+
+class RuntimeErrorMarker extends GutterMarker {
+  constructor(readonly message: string) {
+    super();
+  }
+
+  eq(other: RuntimeErrorMarker): boolean {
+    return other.message === this.message;
+  }
+
+  toDOM(): Node {
+    const dom = document.createElement("span");
+    dom.className = "cm-runtime-error-marker";
+    dom.textContent = "●";
+    dom.title = this.message;
+    return dom;
+  }
+}
+
+interface RuntimeErrorState {
+  lines: DecorationSet;
+  markers: RangeSet<GutterMarker>;
+}
+
+const runtimeErrorField = StateField.define<RuntimeErrorState>({
+  create: () => ({ lines: Decoration.none, markers: RangeSet.empty }),
+  update(value, tr) {
+    // Keep the marker on its line while the code around it is edited.
+    let { lines, markers } = value;
+    if (tr.docChanged) {
+      lines = lines.map(tr.changes);
+      markers = markers.map(tr.changes);
+    }
+    for (const effect of tr.effects) {
+      if (!effect.is(setRuntimeError)) continue;
+      const error = effect.value;
+      if (!error || error.line > tr.state.doc.lines) {
+        lines = Decoration.none;
+        markers = RangeSet.empty;
+        continue;
+      }
+      const from = tr.state.doc.line(error.line).from;
+      lines = Decoration.set(
+        Decoration.line({
+          class: "cm-runtime-error-line",
+          attributes: { title: error.message },
+        }).range(from)
+      );
+      markers = RangeSet.of(new RuntimeErrorMarker(error.message).range(from));
+    }
+    return { lines, markers };
+  },
+  provide: (field) =>
+    EditorView.decorations.from(field, (value) => value.lines),
+});
+
+const runtimeErrorGutter = gutter({
+  class: "cm-runtime-error-gutter",
+  markers: (view) => view.state.field(runtimeErrorField).markers,
+});
+
+/* ---------- Look ---------- */
+
+/** Token colours come from the --syntax-* variables in index.css. */
+const highlightStyle = HighlightStyle.define([
+  { tag: [tags.keyword, tags.operatorKeyword], color: "var(--syntax-keyword)" },
+  { tag: [tags.string, tags.regexp], color: "var(--syntax-string)" },
+  { tag: [tags.number, tags.bool, tags.null], color: "var(--syntax-number)" },
+  { tag: tags.comment, color: "var(--syntax-comment)", fontStyle: "italic" },
+  {
+    tag: [tags.function(tags.variableName), tags.function(tags.propertyName)],
+    color: "var(--syntax-function)",
+  },
+  { tag: tags.propertyName, color: "var(--syntax-property)" },
+  { tag: tags.invalid, color: "var(--syntax-invalid)" },
+]);
+
+const editorTheme = EditorView.theme({
+  ".cm-content": {
+    // The page disables text selection outside of inputs.
+    userSelect: "text",
+    WebkitUserSelect: "text",
+  },
+  ".cm-gutters": {
+    backgroundColor: "var(--bg-b)",
+    color: "var(--text-b)",
+    borderRight: "1px solid var(--border-a)",
+  },
+  ".cm-activeLine, .cm-activeLineGutter": {
+    backgroundColor: "color-mix(in srgb, var(--text-b) 10%, transparent)",
+  },
+  "&.cm-focused .cm-matchingBracket": {
+    backgroundColor:
+      "color-mix(in srgb, var(--syntax-keyword) 25%, transparent)",
+  },
+  ".cm-runtime-error-line": {
+    backgroundColor: "color-mix(in srgb, var(--error, red) 15%, transparent)",
+  },
+  ".cm-runtime-error-gutter": {
+    width: "1em",
+  },
+  ".cm-runtime-error-marker": {
+    color: "var(--error, red)",
+    cursor: "default",
+  },
+  ".cm-panels": {
+    backgroundColor: "var(--bg-b)",
+    color: "var(--text-a)",
+  },
+});
+
+/**
+ * Editing surface for tool code. Language features (completions, type
+ * errors) are added separately by tool-language.ts.
+ */
+export function editorExtensions(): Extension {
+  return [
+    lineNumbers(),
+    runtimeErrorGutter,
+    highlightActiveLineGutter(),
+    highlightSpecialChars(),
+    drawSelection(),
+    highlightActiveLine(),
+    javascript(),
+    syntaxHighlighting(highlightStyle),
+    indentOnInput(),
+    bracketMatching(),
+    closeBrackets(),
+    search({ top: true }),
+    highlightSelectionMatches(),
+    runtimeErrorField,
+    keymap.of([...closeBracketsKeymap, ...searchKeymap, indentWithTab]),
+    editorTheme,
+  ];
+}
@@ -0,0 +1,183 @@
+/*
+ * Exporter – renders the Paper.js project (or part of it) to SVG, PNG or JPEG.
+ *
+ * Raster formats are produced from the SVG export so vector artwork is
+ * re-rendered at the requested scale instead of being upscaled from the
+ * on-screen canvas.
+ */
+import { PAGE_ROLE } from "./paper-manager.js";
+
+export type ExportFormat = "svg" | "png" | "jpeg";
+export type ExportArea = "canvas" | "content" | "selection";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  area: ExportArea;
+  /** Output pixels per project unit (raster formats only). */
+  scale: number;
+  /**
+   * Solid background colour, or null for transparent. A transparent export
+   * also leaves out the page fill of documents created through "New".
+   */
+  background: string | null;
+  /** JPEG quality between 0 and 1. */
+  quality?: number;
+  /** Item to export when `area` is "selection". */
+  selection?: any;
+}
+
+/** CSS pixels per inch – used to convert DPI to a scale factor. */
+export const CSS_DPI = 96;
+
+/**
+ * Compute the project-space rectangle covered by an export area.
+ * Returns null if the area is empty (e.g. no artwork or no selection).
+ */
+export function getExportBounds(area: ExportArea, selection?: any): any | null {
+  const paper = window.paper;
+  const project = window.project;
+  if (!project) return null;
+
+  if (area === "canvas") {
+    // Documents created through "New" have a page; otherwise use the view.
+    const page = window.paperManager?.getPageBounds?.();
+    if (page) return page;
+    return window.view ? window.view.bounds.clone() : null;
+  }
+
+  if (area === "selection") {
+    return selection ? selection.strokeBounds.clone() : null;
+  }
+
+  // The page is the backdrop, not content; it would always fill the bounds.
+  let bounds: any = null;
+  project.layers.forEach((layer: any) => {
+    if (!layer.visible) return;
+    layer.children.forEach((item: any) => {
+      if (!item.visible || isPageItem(item)) return;
+      bounds = bounds
+        ? bounds.unite(item.strokeBounds)
+        : item.strokeBounds.clone();
+    });
+  });
+  return bounds && bounds.width > 0 && bounds.height > 0
+    ? new paper.Rectangle(bounds)
+    : null;
+}
+
+/**
+ * Produce a standalone SVG document for the given area. For selections the
+ * item is copied into a temporary project so overlapping artwork is excluded.
+ */
+export function exportSVGString(options: ExportOptions): string {
+  const paper = window.paper;
+  const project = window.project;
+  const bounds = getExportBounds(options.area, options.selection);
+  if (!bounds) {
+    throw new Error(
+      options.area === "selection"
+        ? "Select an item in the outline to export it"
+        : "There is nothing to export"
+    );
+  }
+
+  let svg: SVGSVGElement;
+  if (options.area === "selection") {
+    const temp = new paper.Project(new paper.Size(1, 1));
+    try {
+      temp.activeLayer.addChild(options.selection.clone({ insert: false }));
+      temp.deselectAll();
+      svg = temp.exportSVG({ bounds });
+    } finally {
+      temp.remove();
+      project.activate();
+    }
+  } else {
+    const hidden = options.background ? [] : hidePage(project);
+    try {
+      svg = project.exportSVG({ bounds });
+    } finally {
+      hidden.forEach((item) => (item.visible = true));
+    }
+  }
+
+  if (options.background) {
+    const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+    // Paper.js sets the viewBox to the export bounds, so cover exactly those.
+    rect.setAttribute("x", String(bounds.x));
+    rect.setAttribute("y", String(bounds.y));
+    rect.setAttribute("width", String(bounds.width));
+    rect.setAttribute("height", String(bounds.height));
+    rect.setAttribute("fill", options.background);
+    svg.insertBefore(rect, svg.firstChild);
+  }
+
+  return new XMLSerializer().serializeToString(svg);
+}
+
+/** Render the export area to a Blob in the requested format. */
+export async function exportToBlob(options: ExportOptions): Promise<Blob> {
+  const svg = exportSVGString(options);
+  if (options.format === "svg") {
+    return new Blob([svg], { type: "image/svg+xml" });
+  }
+
+  const bounds = getExportBounds(options.area, options.selection);
+  const width = Math.max(1, Math.round(bounds.width * options.scale));
+  const height = Math.max(1, Math.round(bounds.height * options.scale));
+
+  const image = await loadSVGImage(svg);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not create a 2D canvas for export");
+
+  // JPEG has no alpha channel, so fall back to white instead of black.
+  const background =
+    options.background ?? (options.format === "jpeg" ? "#ffffff" : null);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const type = options.format === "png" ? "image/png" : "image/jpeg";
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Raster export failed")),
+      type,
+      options.quality ?? 0.92
+    );
+  });
+}
+
+function isPageItem(item: any): boolean {
+  return item.data?.role === PAGE_ROLE;
+}
+
+/** Hide the visible page items for an export; returns them to show again. */
+function hidePage(project: any): any[] {
+  const items = project
+    .getItems({ match: isPageItem })
+    .filter((item: any) => item.visible);
+  items.forEach((item: any) => (item.visible = false));
+  return items;
+}
+
+function loadSVGImage(svg: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render SVG for raster export"));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,182 @@
+/*
+ * HistoryManager – snapshot based undo / redo for the whole document.
+ *
+ * Every time the project settles (PaperManager fires `projectChanged` and no
+ * group is open) the manager serialises the Paper.js project together with the
+ * global colours. If the result differs from the current entry it becomes a
+ * new undo step. Tools and the input layer can wrap several edits in a group so
+ * they collapse into a single step.
+ */
+import type { PaperManager } from "./paper-manager.js";
+import { captureSnapshot, applySnapshot } from "./document-file.js";
+
+export interface DocumentSnapshot {
+  project: string;
+  /** Index of the active layer so drawing resumes on the same layer. */
+  activeLayer: number;
+  colors: { primary: string; secondary: string };
+}
+
+export class HistoryManager {
+  private entries: DocumentSnapshot[] = [];
+  private index = -1;
+  /** Entry index that matches the last saved file (-1 = never saved). */
+  private savedIndex = -1;
+  private groupDepth = 0;
+  private restoring = false;
+  private listeners: Set<() => void> = new Set();
+
+  /** Maximum number of undo steps kept in memory. */
+  limit = 100;
+
+  constructor(paperManager: PaperManager) {
+    paperManager.addEventListener("projectChanged", () => this.commit());
+    // A replaced document starts with a clean history.
+    paperManager.addEventListener("documentReset", () => this.reset());
+    this.reset();
+  }
+
+  /**
+   * Forget all entries and use the current document as the new baseline.
+   */
+  reset(): void {
+    this.entries = [captureSnapshot()];
+    this.index = 0;
+    this.savedIndex = 0;
+    this.groupDepth = 0;
+    this.notify();
+  }
+
+  /**
+   * Record the current document as a new undo step if it differs from the
+   * latest entry. Calls made while a group is open are deferred until the
+   * outermost group ends.
+   */
+  commit(): void {
+    if (this.restoring || this.groupDepth > 0) return;
+
+    const snapshot = captureSnapshot();
+    if (this.isSame(snapshot, this.entries[this.index])) return;
+
+    // Drop any redo branch before appending.
+    this.entries.splice(this.index + 1);
+    if (this.savedIndex > this.index) this.savedIndex = -1;
+    this.entries.push(snapshot);
+    if (this.entries.length > this.limit) {
+      const dropped = this.entries.length - this.limit;
+      this.entries.splice(0, dropped);
+      this.savedIndex -= dropped;
+    }
+    this.index = this.entries.length - 1;
+    this.notify();
+  }
+
+  /** Open a group – edits until the matching endGroup() form one step. */
+  beginGroup(): void {
+    this.groupDepth++;
+  }
+
+  /** Close a group and commit once the outermost group is finished. */
+  endGroup(): void {
+    if (this.groupDepth === 0) return;
+    this.groupDepth--;
+    if (this.groupDepth === 0) this.commit();
+  }
+
+  /**
+   * Close a group and throw away its edits by restoring the last committed
+   * state (e.g. a stroke interrupted by a navigation gesture).
+   */
+  abortGroup(): void {
+    if (this.groupDepth === 0) return;
+    this.groupDepth--;
+    if (this.groupDepth === 0) this.restore(this.entries[this.index]);
+  }
+
+  /** Run `fn` inside a group so all of its edits become one undo step. */
+  transaction<T>(fn: () => T): T {
+    this.beginGroup();
+    try {
+      return fn();
+    } finally {
+      this.endGroup();
+    }
+  }
+
+  canUndo(): boolean {
+    return this.groupDepth === 0 && this.index > 0;
+  }
+
+  canRedo(): boolean {
+    return this.groupDepth === 0 && this.index < this.entries.length - 1;
+  }
+
+  /** Remember the current entry as the state that was last saved. */
+  markSaved(): void {
+    this.savedIndex = this.index;
+    this.notify();
+  }
+
+  /**
+   * Treat the current document as never saved, e.g. after recovering an
+   * autosaved session that was not written to a file.
+   */
+  markUnsaved(): void {
+    this.savedIndex = -1;
+    this.notify();
+  }
+
+  /** True if the document changed since it was last saved or reset. */
+  isDirty(): boolean {
+    return this.index !== this.savedIndex;
+  }
+
+  undo(): void {
+    if (!this.canUndo()) return;
+    this.index--;
+    this.restore(this.entries[this.index]);
+  }
+
+  redo(): void {
+    if (!this.canRedo()) return;
+    this.index++;
+    this.restore(this.entries[this.index]);
+  }
+
+  /** Subscribe to changes of the undo / redo availability and dirty state. */
+  addListener(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  private isSame(
+    a: DocumentSnapshot,
+    b: DocumentSnapshot | undefined
+  ): boolean {
+    return (
+      !!b &&
+      a.project === b.project &&
+      a.colors.primary === b.colors.primary &&
+      a.colors.secondary === b.colors.secondary
+    );
+  }
+
+  private restore(snapshot: DocumentSnapshot): void {
+    this.restoring = true;
+    try {
+      applySnapshot(snapshot);
+      window.paperManager?.notifyProjectChanged?.();
+      window.view?.draw();
+    } finally {
+      this.restoring = false;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -3,31 +3,64 @@
  */
 
 import { ToolSystem } from "./tool-system.js";
-import type { PointerData, KeyData } from "./tool-system.js";
+import type {
+  PointerData,
+  KeyData,
+  WheelData,
+  PointerEventType,
+} from "./tool-system.js";
 import { PointerSessionManager } from "./pointer-session.js";
+import { ViewportController } from "./viewport-controller.js";
+import { InputRecorder } from "./input-recorder.js";
+import { StrokeStabilizer } from "./stroke-stabilizer.js";
+import { DeviceProfiles } from "./device-profiles.js";
+import type { KeyEventType, InputTarget } from "./input-recorder.js";
 
-export class InputManager {
+export class InputManager implements InputTarget {
   private canvas: HTMLCanvasElement;
   private toolSystem: ToolSystem;
   private sessionManager = new PointerSessionManager();
+  /** Pan / zoom handling; sees pointer events before the tools do. */
+  readonly viewport: ViewportController;
+  /** Pressure curves and tilt mapping per pointer type. */
+  readonly deviceProfiles = new DeviceProfiles();
+  /** Smoothing stage between raw pointer events and the tools. */
+  readonly stabilizer = new StrokeStabilizer();
+  /** Records the events that reach the tools and replays recordings. */
+  readonly recorder = new InputRecorder();
 
   constructor(canvas: HTMLCanvasElement, toolSystem: ToolSystem) {
     this.canvas = canvas;
     this.toolSystem = toolSystem;
+    this.viewport = new ViewportController(canvas, this.cancelToolPointer);
     // Make the session manager available to tools via the ToolSystem.
     this.toolSystem.sessionManager = this.sessionManager;
 
-    // Unified pointer routing (down / move / up / cancel)
-    ["pointerdown", "pointermove", "pointerup", "pointercancel"].forEach(
-      (type) =>
-        canvas.addEventListener(type, this.routePointer as any, {
-          passive: false,
-        })
+    // Unified pointer routing (down / move / up / cancel / enter / leave)
+    [
+      "pointerdown",
+      "pointermove",
+      "pointerup",
+      "pointercancel",
+      "pointerenter",
+      "pointerleave",
+    ].forEach((type) =>
+      canvas.addEventListener(type, this.routePointer as any, {
+        passive: false,
+      })
     );
+    // The active tool sees the wheel first, then the viewport zooms.
+    canvas.addEventListener("wheel", this.routeWheel, { passive: false });
 
     // Keyboard events (global)
     window.addEventListener("keydown", this.handleKeyDown, { passive: false });
     window.addEventListener("keyup", this.handleKeyUp, { passive: false });
+    // Releasing space outside the window never reaches us; leave pan mode.
+    // Keys released while the window is in the background never send keyup.
+    window.addEventListener("blur", () => {
+      this.viewport.setSpaceHeld(false);
+      window.keymap?.releaseAll();
+    });
 
     // Prevent the system context menu / share sheet from appearing when
     // long-pressing or holding the Apple Pencil on the canvas (Safari on iPad).
@@ -52,7 +85,7 @@ export class InputManager {
       ? window.view.viewToProject(viewPoint)
       : viewPoint;
 
-    return {
+    return this.deviceProfiles.apply({
       point: projectPoint,
       pressure: ev.pressure ?? 0,
       buttons: ev.buttons,
@@ -60,10 +93,22 @@ export class InputManager {
       pointerType: ev.pointerType as "mouse" | "pen" | "touch",
       tiltX: ev.tiltX,
       tiltY: ev.tiltY,
+      timeStamp: ev.timeStamp,
       native: ev,
-    };
+    });
   };
 
+  /**
+   * Expand a pointermove into the individual samples the browser merged into
+   * it (pen digitisers report far more often than once per frame). Falls
+   * back to the event itself where coalesced events aren't supported.
+   */
+  private getSamples(ev: PointerEvent): PointerEvent[] {
+    if (ev.type !== "pointermove") return [ev];
+    const coalesced = ev.getCoalescedEvents?.() ?? [];
+    return coalesced.length > 0 ? coalesced : [ev];
+  }
+
   /**
    * Returns true if the event should be ignored by the drawing engine.
    * We skip events that originate on draggable elements or within the
@@ -93,26 +138,121 @@ export class InputManager {
       (ev.target as HTMLElement).setPointerCapture?.(ev.pointerId);
     }
 
-    const data = this.makePointerData(ev);
+    const type = ev.type as PointerEventType;
+
+    // Live input would get mixed into a replay; let the replay finish.
+    if (this.recorder.isReplaying()) return;
+
+    if (type === "pointerenter" || type === "pointerleave") {
+      this.dispatchToolPointer(type, this.makePointerData(ev));
+      return;
+    }
+
+    // Navigation gestures (pan / zoom) never reach the tools.
+    if (this.viewport.handlePointer(ev)) return;
+
+    if (type === "pointercancel") {
+      this.cancelToolPointer(ev.pointerId);
+      return;
+    }
+
+    // The smoothed stroke catches up with the pointer before it ends.
+    if (type === "pointerup") {
+      const catchUp = this.stabilizer.catchUp(this.makePointerData(ev));
+      if (catchUp) this.dispatchToolPointer("pointermove", catchUp);
+    }
+
+    // Smooth the stream; moves within the lazy-mouse string are dropped.
+    const samples = this.getSamples(ev)
+      .map((sample) =>
+        this.stabilizer.process(type, this.makePointerData(sample))
+      )
+      .filter((data): data is PointerData => data !== null);
+    if (samples.length === 0) return;
 
-    // Normalise cancel → up so tools don't need a special handler.
-    const type = ev.type === "pointercancel" ? "pointerup" : (ev.type as any);
+    // Predictions ride along with the newest sample as a preview only.
+    if (type === "pointermove") {
+      const predicted = ev.getPredictedEvents?.() ?? [];
+      samples[samples.length - 1].predicted = predicted.map(
+        this.makePointerData
+      );
+    }
+
+    samples.forEach((data) => this.dispatchToolPointer(type, data));
+  };
+
+  /**
+   * Deliver a pointer event to the active tool. Used for live input and for
+   * replayed recordings alike so both get the same session tracking. Undo
+   * grouping and change notifications happen in the ToolSystem, when the
+   * tool actually handles the event.
+   */
+  dispatchToolPointer(type: PointerEventType, data: PointerData): void {
+    this.recorder.recordPointer(type, data);
 
     // Track full session history for interested tools / analytics.
     if (type === "pointerdown") this.sessionManager.start(data);
     else if (type === "pointermove") this.sessionManager.move(data);
-    else if (type === "pointerup") this.sessionManager.end(data);
+    else if (type === "pointerup" || type === "pointercancel") {
+      this.sessionManager.end(data);
+    }
 
     this.toolSystem.dispatchPointer(type, data);
+  }
+
+  /** Deliver a key event to the active tool (live or replayed). */
+  dispatchToolKey(type: KeyEventType, data: KeyData): void {
+    this.recorder.recordKey(type, data);
+    this.toolSystem.dispatchKey(type, data);
+  }
+
+  /**
+   * Cancel a tool's stroke: the browser cancelled the pointer, or it was
+   * taken over for navigation (e.g. the first finger of a pinch). The tool
+   * gets onCancel and everything it drew during the stroke is rolled back.
+   */
+  private cancelToolPointer = (pointerId: number): void => {
+    const session = this.sessionManager.get(pointerId);
+    if (!session || session.length === 0) return;
+
+    this.stabilizer.reset(pointerId);
+    this.dispatchToolPointer("pointercancel", session[session.length - 1]);
+  };
+
+  /* ---------- Wheel ---------- */
+  private makeWheelData(ev: WheelEvent): WheelData {
+    const rect = this.canvas.getBoundingClientRect();
+    const viewPoint = new window.paper.Point(
+      ev.clientX - rect.left,
+      ev.clientY - rect.top
+    );
+    // Normalise line / page deltas to pixels.
+    const unit =
+      ev.deltaMode === 1 ? 16 : ev.deltaMode === 2 ? this.canvas.height : 1;
+    return {
+      point: window.view ? window.view.viewToProject(viewPoint) : viewPoint,
+      deltaX: ev.deltaX * unit,
+      deltaY: ev.deltaY * unit,
+      ctrl: ev.ctrlKey,
+      shift: ev.shiftKey,
+      alt: ev.altKey,
+      meta: ev.metaKey,
+      native: ev,
+    };
+  }
 
-    // Let interested components re-render their previews / outlines.
-    // Notify other components only for pointerdown and pointerup to avoid
-    // excessive updates during continuous pointermove events which can cause
-    // performance issues when large drawings or complex panels (e.g., the
-    // outline panel) are recalculated on every move.
-    if (type === "pointerdown" || type === "pointerup") {
-      window.paperManager?.notifyProjectChanged?.();
+  private routeWheel = (ev: WheelEvent): void => {
+    ev.preventDefault(); // Never scroll the page
+    // Ctrl / Cmd + wheel (and trackpad pinch) is always a zoom.
+    const zoomGesture = ev.ctrlKey || ev.metaKey;
+    if (
+      !zoomGesture &&
+      !this.recorder.isReplaying() &&
+      this.toolSystem.dispatchWheel(this.makeWheelData(ev))
+    ) {
+      return;
     }
+    this.viewport.handleWheel(ev);
   };
 
   /* ---------- Key helpers ---------- */
@@ -128,13 +268,39 @@ export class InputManager {
     };
   };
 
+  /**
+   * Returns true when the key event belongs to a text field (e.g. the code
+   * editor) so canvas shortcuts don't hijack normal typing.
+   */
+  private isTextInput(ev: KeyboardEvent): boolean {
+    const target = ev.composedPath()[0] as HTMLElement | undefined;
+    if (!target || !target.tagName) return false;
+    return (
+      target.tagName === "TEXTAREA" ||
+      target.tagName === "INPUT" ||
+      target.isContentEditable
+    );
+  }
+
+  /** Space held down switches the canvas into pan mode. */
+  private handleSpaceKey(ev: KeyboardEvent): boolean {
+    if (ev.code !== "Space" || this.isTextInput(ev)) return false;
+    ev.preventDefault(); // Don't scroll the page or click focused buttons
+    this.viewport.setSpaceHeld(ev.type === "keydown");
+    return true;
+  }
+
   private handleKeyDown = (ev: KeyboardEvent): void => {
-    const data = this.makeKeyData(ev);
-    this.toolSystem.dispatchKey("keydown", data);
+    if (this.handleSpaceKey(ev)) return;
+    if (window.keymap?.handleKeyDown(ev, this.isTextInput(ev))) return;
+    if (this.recorder.isReplaying()) return;
+    this.dispatchToolKey("keydown", this.makeKeyData(ev));
   };
 
   private handleKeyUp = (ev: KeyboardEvent): void => {
-    const data = this.makeKeyData(ev);
-    this.toolSystem.dispatchKey("keyup", data);
+    if (this.handleSpaceKey(ev)) return;
+    if (window.keymap?.handleKeyUp(ev)) return;
+    if (this.recorder.isReplaying()) return;
+    this.dispatchToolKey("keyup", this.makeKeyData(ev));
   };
 }
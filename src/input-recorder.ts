@@ -0,0 +1,361 @@
+/*
+ * InputRecorder – records the pointer and key events that reach the tools,
+ * with their timing, and replays them later against any tool.
+ *
+ * Points are stored in project coordinates, so a recording replays at the
+ * same place in the drawing regardless of pan / zoom. Recordings can be saved
+ * to a file to share exact reproductions of tool bugs, or re-run with a
+ * different tool active to redo a performance with another brush.
+ */
+import type { PointerData, KeyData, PointerEventType } from "./tool-system.js";
+import { downloadBlob, pickFile } from "./file-utils.js";
+import { tiltToAngles } from "./device-profiles.js";
+
+export const RECORDING_FORMAT = "canvascode-input";
+export const RECORDING_VERSION = 1;
+export const RECORDING_EXTENSION = ".canvascode-input";
+
+export type KeyEventType = "keydown" | "keyup";
+
+const POINTER_EVENT_TYPES: PointerEventType[] = [
+  "pointerdown",
+  "pointermove",
+  "pointerup",
+  "pointercancel",
+  "pointerenter",
+  "pointerleave",
+];
+
+export interface RecordedPointerEvent {
+  kind: "pointer";
+  /** Milliseconds since the recording started. */
+  t: number;
+  type: PointerEventType;
+  x: number;
+  y: number;
+  pressure: number;
+  buttons: number;
+  pointerId: number;
+  pointerType: "mouse" | "pen" | "touch";
+  tiltX: number;
+  tiltY: number;
+  altitude?: number;
+  azimuth?: number;
+  /** Device values before pressure / tilt mapping. */
+  raw?: { pressure: number; tiltX: number; tiltY: number };
+}
+
+export interface RecordedKeyEvent {
+  kind: "key";
+  t: number;
+  type: KeyEventType;
+  key: string;
+  code: string;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+}
+
+export type RecordedEvent = RecordedPointerEvent | RecordedKeyEvent;
+
+export interface InputRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  /** ISO date of the recording. */
+  createdAt: string;
+  /** Tool that was active when recording started, for reference only. */
+  toolName: string | null;
+  duration: number;
+  events: RecordedEvent[];
+}
+
+/** Where replayed events are sent; implemented by InputManager. */
+export interface InputTarget {
+  dispatchToolPointer(type: PointerEventType, data: PointerData): void;
+  dispatchToolKey(type: KeyEventType, data: KeyData): void;
+}
+
+export interface ReplayOptions {
+  /** Playback speed factor; 0 replays everything at once. Defaults to 1. */
+  speed?: number;
+}
+
+export class InputRecorder {
+  private recording: InputRecording | null = null;
+  private startTime = 0;
+  /** Incremented to cancel a running replay. */
+  private replayRun = 0;
+  private replaying = false;
+  private listeners: Set<() => void> = new Set();
+
+  /** Last finished recording, kept so it can be replayed or saved. */
+  lastRecording: InputRecording | null = null;
+
+  /* ---------- Recording ---------- */
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  startRecording(): void {
+    if (this.recording) return;
+    this.startTime = performance.now();
+    this.recording = {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      toolName: window.toolSystem?.getActiveToolName() ?? null,
+      duration: 0,
+      events: [],
+    };
+    this.notify();
+  }
+
+  /** Stop recording and return the result (null if nothing was recording). */
+  stopRecording(): InputRecording | null {
+    const recording = this.recording;
+    if (!recording) return null;
+    recording.duration = performance.now() - this.startTime;
+    // Pointer samples carry their own (slightly earlier) time stamps.
+    recording.events.sort((a, b) => a.t - b.t);
+    this.recording = null;
+    this.lastRecording = recording;
+    this.notify();
+    return recording;
+  }
+
+  recordPointer(type: PointerEventType, data: PointerData): void {
+    if (!this.recording) return;
+    this.recording.events.push({
+      kind: "pointer",
+      // Coalesced samples are dispatched together; keep their own timing.
+      t: Math.max(0, (data.timeStamp ?? performance.now()) - this.startTime),
+      type,
+      x: data.point.x,
+      y: data.point.y,
+      pressure: data.pressure,
+      buttons: data.buttons,
+      pointerId: data.pointerId,
+      pointerType: data.pointerType,
+      tiltX: data.tiltX,
+      tiltY: data.tiltY,
+      altitude: data.altitude,
+      azimuth: data.azimuth,
+      raw: data.raw,
+    });
+  }
+
+  recordKey(type: KeyEventType, data: KeyData): void {
+    if (!this.recording) return;
+    this.recording.events.push({
+      kind: "key",
+      t: performance.now() - this.startTime,
+      type,
+      key: data.key,
+      code: data.code,
+      ctrl: data.ctrl,
+      shift: data.shift,
+      alt: data.alt,
+      meta: data.meta,
+    });
+  }
+
+  /* ---------- Replay ---------- */
+
+  isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  /**
+   * Send the events of a recording to `target` with their original timing.
+   * Resolves when the replay finished or was stopped. Strokes still open at
+   * that point are cancelled so tools don't keep them going.
+   */
+  async replay(
+    recording: InputRecording,
+    target: InputTarget,
+    options: ReplayOptions = {}
+  ): Promise<void> {
+    this.stopReplay();
+    const run = ++this.replayRun;
+    const speed = options.speed ?? 1;
+    const down: Map<number, PointerData> = new Map();
+    this.replaying = true;
+    this.notify();
+
+    const start = performance.now();
+    try {
+      for (const event of recording.events) {
+        if (speed > 0) {
+          const wait = start + event.t / speed - performance.now();
+          if (wait > 0) await sleep(wait);
+        }
+        if (run !== this.replayRun) break;
+
+        if (event.kind === "pointer") {
+          const data = toPointerData(event);
+          const id = event.pointerId;
+          if (event.type === "pointerup" || event.type === "pointercancel") {
+            down.delete(id);
+          } else if (event.type === "pointerdown" || down.has(id)) {
+            down.set(id, data);
+          }
+          target.dispatchToolPointer(event.type, data);
+        } else {
+          target.dispatchToolKey(event.type, toKeyData(event));
+        }
+      }
+    } finally {
+      down.forEach((data) => target.dispatchToolPointer("pointercancel", data));
+      if (run === this.replayRun) {
+        this.replaying = false;
+        this.notify();
+      }
+    }
+  }
+
+  stopReplay(): void {
+    if (!this.replaying) return;
+    this.replayRun++;
+    this.replaying = false;
+    this.notify();
+  }
+
+  /* ---------- Listeners ---------- */
+
+  /** Called when recording or replay starts or stops. */
+  addListener(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/* ---------- Files ---------- */
+
+export function parseRecording(text: string): InputRecording {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!data || data.format !== RECORDING_FORMAT) {
+    throw new Error("File is not a CanvasCode input recording");
+  }
+  if (typeof data.version !== "number" || data.version > RECORDING_VERSION) {
+    throw new Error(
+      `Unsupported recording version ${data.version} (expected ${RECORDING_VERSION} or lower)`
+    );
+  }
+  if (!Array.isArray(data.events)) {
+    throw new Error("Recording is missing its events");
+  }
+
+  const events = (data.events as any[]).filter(
+    (event) =>
+      event &&
+      typeof event.t === "number" &&
+      ((event.kind === "pointer" &&
+        POINTER_EVENT_TYPES.includes(event.type) &&
+        typeof event.x === "number" &&
+        typeof event.y === "number") ||
+        (event.kind === "key" &&
+          ["keydown", "keyup"].includes(event.type) &&
+          typeof event.key === "string"))
+  ) as RecordedEvent[];
+  events.sort((a, b) => a.t - b.t);
+
+  return {
+    format: RECORDING_FORMAT,
+    version: data.version,
+    createdAt: typeof data.createdAt === "string" ? data.createdAt : "",
+    toolName: typeof data.toolName === "string" ? data.toolName : null,
+    duration:
+      typeof data.duration === "number"
+        ? data.duration
+        : events[events.length - 1]?.t ?? 0,
+    events,
+  };
+}
+
+export function saveRecording(
+  recording: InputRecording,
+  fileName: string = "recording"
+): void {
+  downloadBlob(
+    new Blob([JSON.stringify(recording)], { type: "application/json" }),
+    `${fileName}${RECORDING_EXTENSION}`
+  );
+}
+
+/** Let the user pick a recording file; resolves with null if dismissed. */
+export async function openRecording(): Promise<InputRecording | null> {
+  const file = await pickFile(`${RECORDING_EXTENSION},application/json`);
+  if (!file) return null;
+  return parseRecording(await file.text());
+}
+
+/* ---------- Helpers ---------- */
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Rebuild PointerData; `native` is a synthetic event without screen position. */
+function toPointerData(event: RecordedPointerEvent): PointerData {
+  // Recordings made before tilt mapping only have the tilt values.
+  const angles = tiltToAngles(event.tiltX ?? 0, event.tiltY ?? 0);
+  return {
+    point: new window.paper.Point(event.x, event.y),
+    pressure: event.pressure ?? 0,
+    buttons: event.buttons ?? 0,
+    pointerId: event.pointerId ?? 1,
+    pointerType: event.pointerType ?? "mouse",
+    tiltX: event.tiltX ?? 0,
+    tiltY: event.tiltY ?? 0,
+    altitude: event.altitude ?? angles.altitude,
+    azimuth: event.azimuth ?? angles.azimuth,
+    raw: event.raw ?? {
+      pressure: event.pressure ?? 0,
+      tiltX: event.tiltX ?? 0,
+      tiltY: event.tiltY ?? 0,
+    },
+    timeStamp: performance.now(),
+    native: new PointerEvent(event.type, {
+      pointerId: event.pointerId,
+      pointerType: event.pointerType,
+      pressure: event.pressure,
+      buttons: event.buttons,
+      tiltX: event.tiltX,
+      tiltY: event.tiltY,
+    }),
+  };
+}
+
+function toKeyData(event: RecordedKeyEvent): KeyData {
+  return {
+    key: event.key,
+    code: event.code ?? "",
+    ctrl: !!event.ctrl,
+    shift: !!event.shift,
+    alt: !!event.alt,
+    meta: !!event.meta,
+    native: new KeyboardEvent(event.type, {
+      key: event.key,
+      code: event.code,
+      ctrlKey: event.ctrl,
+      shiftKey: event.shift,
+      altKey: event.alt,
+      metaKey: event.meta,
+    }),
+  };
+}
@@ -0,0 +1,251 @@
+/*
+ * Keymap – central registry of app commands and their keyboard shortcuts.
+ *
+ * Commands are registered once (see commands.ts) and can be run from the menu
+ * bar, from a shortcut or programmatically. InputManager offers every keydown
+ * to the keymap first; keys that no command claims still go to the active
+ * tool. User rebinds are stored in localStorage on top of the defaults.
+ */
+
+const STORAGE_KEY = "canvascode:keymap";
+
+export interface Command {
+  id: string;
+  label: string;
+  /** Group heading in the shortcuts dialog. */
+  category: string;
+  /** Keep firing while the key auto-repeats (e.g. undo). */
+  repeat?: boolean;
+  /** Also fire while typing in a text field (e.g. save, run code). */
+  global?: boolean;
+  run(): void;
+  /**
+   * Called when the key that ran the command is released, with the time it
+   * was held. Lets a command act only while its key is down (spring-loaded
+   * tools). Commands run without a key get release(0) right away.
+   */
+  release?(heldMs: number): void;
+}
+
+export class Keymap {
+  private commands: Map<string, Command> = new Map();
+  private defaults: Map<string, string[]> = new Map();
+  private bindings: Map<string, string[]> = new Map();
+  private listeners: Set<() => void> = new Set();
+  /** Commands with a release hook whose key is down, by physical key. */
+  private held: Map<string, { command: Command; since: number }> = new Map();
+
+  /**
+   * Register a command with its default shortcuts. Shortcuts use the form
+   * "Mod+Shift+Z" where Mod is Ctrl or Cmd.
+   */
+  register(command: Command, shortcuts: string[] = []): void {
+    this.commands.set(command.id, command);
+    const normalized = shortcuts.map(normalizeShortcut);
+    this.defaults.set(command.id, normalized);
+    const stored = this.loadOverrides()[command.id];
+    this.bindings.set(command.id, stored ?? normalized);
+    this.notify();
+  }
+
+  getCommands(): Command[] {
+    return [...this.commands.values()];
+  }
+
+  /** Run a command by id. Returns false if no such command exists. */
+  run(id: string): boolean {
+    const command = this.commands.get(id);
+    if (!command) {
+      console.warn(`Keymap: unknown command "${id}"`);
+      return false;
+    }
+    this.call(command, () => command.run());
+    this.call(command, () => command.release?.(0));
+    return true;
+  }
+
+  getBindings(id: string): string[] {
+    return this.bindings.get(id) ?? [];
+  }
+
+  /** Replace the shortcuts of a command and persist the change. */
+  setBindings(id: string, shortcuts: string[]): void {
+    if (!this.commands.has(id)) return;
+    this.bindings.set(id, [...new Set(shortcuts.map(normalizeShortcut))]);
+    this.saveOverrides();
+    this.notify();
+  }
+
+  /** Restore the default shortcuts of every command. */
+  resetAll(): void {
+    this.defaults.forEach((shortcuts, id) => this.bindings.set(id, shortcuts));
+    localStorage.removeItem(STORAGE_KEY);
+    this.notify();
+  }
+
+  /** Commands bound to `shortcut`, optionally ignoring one command. */
+  commandsFor(shortcut: string, exceptId?: string): Command[] {
+    const key = normalizeShortcut(shortcut);
+    const result: Command[] = [];
+    this.bindings.forEach((shortcuts, id) => {
+      if (id !== exceptId && shortcuts.includes(key)) {
+        const command = this.commands.get(id);
+        if (command) result.push(command);
+      }
+    });
+    return result;
+  }
+
+  /** Shortcuts that are bound to more than one command. */
+  getConflicts(): Map<string, Command[]> {
+    const conflicts = new Map<string, Command[]>();
+    this.bindings.forEach((shortcuts) => {
+      shortcuts.forEach((shortcut) => {
+        const commands = this.commandsFor(shortcut);
+        if (commands.length > 1) conflicts.set(shortcut, commands);
+      });
+    });
+    return conflicts;
+  }
+
+  /**
+   * Run the command bound to a key event. Returns true if the event was
+   * claimed (and default browser handling prevented). Inside text fields
+   * only `global` commands are considered so typing isn't hijacked.
+   */
+  handleKeyDown(ev: KeyboardEvent, inTextField: boolean = false): boolean {
+    const shortcut = shortcutFromEvent(ev);
+    if (!shortcut) return false;
+    const [command] = this.commandsFor(shortcut);
+    if (!command || (inTextField && !command.global)) return false;
+
+    ev.preventDefault();
+    if (this.held.has(ev.code)) return true;
+    if (ev.repeat && !command.repeat) return true;
+
+    this.call(command, () => command.run());
+    if (command.release) {
+      this.held.set(ev.code, { command, since: performance.now() });
+    }
+    return true;
+  }
+
+  /** Release a held command. Returns true if the key belonged to one. */
+  handleKeyUp(ev: KeyboardEvent): boolean {
+    const entry = this.held.get(ev.code);
+    if (!entry) return false;
+    this.held.delete(ev.code);
+    const heldMs = performance.now() - entry.since;
+    this.call(entry.command, () => entry.command.release?.(heldMs));
+    return true;
+  }
+
+  /** Release every held command, e.g. when the window loses focus. */
+  releaseAll(): void {
+    const entries = [...this.held.values()];
+    this.held.clear();
+    entries.forEach(({ command, since }) =>
+      this.call(command, () => command.release?.(performance.now() - since))
+    );
+  }
+
+  addListener(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  private call(command: Command, fn: () => void): void {
+    try {
+      fn();
+    } catch (err) {
+      console.error(`Command "${command.id}" failed`, err);
+    }
+  }
+
+  private loadOverrides(): { [id: string]: string[] } {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /** Only commands that differ from their defaults are stored. */
+  private saveOverrides(): void {
+    const overrides: { [id: string]: string[] } = {};
+    this.bindings.forEach((shortcuts, id) => {
+      const defaults = this.defaults.get(id) ?? [];
+      if (shortcuts.join(",") !== defaults.join(",")) {
+        overrides[id] = shortcuts;
+      }
+    });
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    } catch (err) {
+      console.error("Keymap: could not store shortcuts", err);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/* ---------- Shortcut strings ---------- */
+
+const MODIFIERS = ["Mod", "Alt", "Shift"];
+
+/** Bring a shortcut into canonical form, e.g. "shift+mod+z" → "Mod+Shift+Z". */
+export function normalizeShortcut(shortcut: string): string {
+  const parts = shortcut.split("+").map((part) => part.trim());
+  const key = parts.pop() ?? "";
+  const mods = new Set(
+    parts.map((part) => {
+      const lower = part.toLowerCase();
+      if (["mod", "ctrl", "control", "cmd", "meta"].includes(lower)) {
+        return "Mod";
+      }
+      return lower.charAt(0).toUpperCase() + lower.slice(1);
+    })
+  );
+  const ordered = MODIFIERS.filter((mod) => mods.has(mod));
+  return [...ordered, normalizeKey(key)].join("+");
+}
+
+function normalizeKey(key: string): string {
+  if (key === " ") return "Space";
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+/**
+ * Canonical shortcut for a key event, or null for lone modifier presses.
+ * Letters follow the keyboard layout (Z is Z on AZERTY too); the physical
+ * key is only used when Alt, a dead key or a non-Latin layout turned the
+ * letter into something else. Digits use the physical key so Shift doesn't
+ * change them.
+ */
+export function shortcutFromEvent(ev: KeyboardEvent): string | null {
+  if (["Control", "Meta", "Alt", "Shift"].includes(ev.key)) return null;
+
+  let key = ev.key;
+  if (/^[a-z]$/i.test(ev.key)) key = ev.key.toUpperCase();
+  else if (/^Key[A-Z]$/.test(ev.code)) key = ev.code.slice(3);
+  else if (/^Digit[0-9]$/.test(ev.code)) key = ev.code.slice(5);
+
+  const parts: string[] = [];
+  if (ev.ctrlKey || ev.metaKey) parts.push("Mod");
+  if (ev.altKey) parts.push("Alt");
+  if (ev.shiftKey) parts.push("Shift");
+  parts.push(normalizeKey(key));
+  return parts.join("+");
+}
+
+/** Human readable shortcut using the platform's modifier name. */
+export function formatShortcut(shortcut: string): string {
+  const isMac = /Mac|iPhone|iPad/.test(navigator.platform);
+  return shortcut.replace("Mod", isMac ? "⌘" : "Ctrl");
+}
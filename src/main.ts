@@ -2,6 +2,11 @@ import paper from "paper";
 import { ToolSystem } from "./tool-system.js";
 import { InputManager } from "./input-manager.js";
 import { PaperManager } from "./paper-manager.js";
+import { HistoryManager } from "./history-manager.js";
+import { applyDocument } from "./document-file.js";
+import { Keymap } from "./keymap.js";
+import { registerDefaultCommands } from "./commands.js";
+import { AutosaveManager } from "./autosave.js";
 import { OverlayCanvas } from "./overlay-canvas.js";
 import { potrace, init as initPotrace } from "esm-potrace-wasm";
 import "./components/tool-selector.js";
@@ -11,7 +16,15 @@ import "./components/paper-canvas.js";
 import "./components/resizable-layout.js";
 import "./components/outline-panel.js";
 import "./components/color-panel.js";
+import "./components/properties-panel.js";
+import "./components/console-panel.js";
 import "./components/menu-bar.js";
+import type { MenuBar } from "./components/menu-bar.js";
+import "./components/new-document-dialog.js";
+import "./components/export-dialog.js";
+import "./components/shortcuts-dialog.js";
+import "./components/input-settings-dialog.js";
+import type { CodeEditor } from "./components/code-editor.js";
 
 // Set up Paper.js globals on window manually (avoiding paper.install issues)
 window.paper = paper;
@@ -53,5 +66,64 @@ window.addEventListener("DOMContentLoaded", () => {
   // Initialize with a simple drawing tool
   paperManager.loadTool("stroke");
 
+  // Document history – created after the first tool so its baseline is the
+  // freshly initialised document.
+  const historyManager = new HistoryManager(paperManager);
+  window.historyManager = historyManager;
+  toolSystem.history = historyManager;
+
+  const menuBar = document.querySelector("menu-bar") as MenuBar | null;
+  const syncHistoryButtons = () => {
+    if (!menuBar) return;
+    menuBar.canUndo = historyManager.canUndo();
+    menuBar.canRedo = historyManager.canRedo();
+  };
+  historyManager.addListener(syncHistoryButtons);
+  syncHistoryButtons();
+  const recorder = inputSystem.recorder;
+  recorder.addListener(() => {
+    if (!menuBar) return;
+    menuBar.recording = recorder.isRecording();
+    menuBar.replaying = recorder.isReplaying();
+    menuBar.hasRecording = recorder.lastRecording !== null;
+  });
+  window.addEventListener("viewportChanged", (ev: Event) => {
+    const { zoom } = (ev as CustomEvent<{ zoom: number }>).detail;
+    if (menuBar) menuBar.zoom = zoom;
+  });
+
+  // App commands and their shortcuts; the menu bar runs the same commands.
+  const keymap = new Keymap();
+  window.keymap = keymap;
+  registerDefaultCommands(keymap);
+
+  document.addEventListener("menu-action", (ev: Event) => {
+    const { action } = (ev as CustomEvent<{ action: string }>).detail;
+    keymap.run(action);
+  });
+
+  // Crash recovery – offer the last autosaved session, then keep saving.
+  const codeEditor = document.querySelector("code-editor") as CodeEditor | null;
+  const autosave = new AutosaveManager(
+    paperManager,
+    () => codeEditor?.getBuffer() ?? null
+  );
+  autosave
+    .load()
+    .then((snapshot) => {
+      if (!snapshot || !snapshot.dirty) return;
+      const time = new Date(snapshot.savedAt).toLocaleString();
+      if (!confirm(`Restore the unsaved session from ${time}?`)) return;
+
+      applyDocument(snapshot.document);
+      // The recovered work is still unsaved; keep New / Open asking first.
+      historyManager.markUnsaved();
+      if (snapshot.editor.unapplied) {
+        codeEditor?.restoreBuffer(snapshot.editor.code);
+      }
+    })
+    .catch((err) => console.error("Failed to restore session:", err))
+    .finally(() => autosave.start());
+
   console.log("Paper.js Runtime Editor initialized");
 });
@@ -85,12 +85,17 @@ export class OverlayCanvas {
   }
 
   /**
-   * Convert Paper.js coordinates to overlay canvas coordinates
+   * Convert Paper.js coordinates to overlay canvas coordinates.
+   * The overlay covers the visible canvas, so the point goes through the
+   * view transform (pan / zoom) first.
    */
   paperToOverlay(point: { x: number; y: number }): { x: number; y: number } {
+    const viewPoint = paper.view
+      ? paper.view.projectToView(new paper.Point(point.x, point.y))
+      : point;
     return {
-      x: point.x * this.scale,
-      y: point.y * this.scale,
+      x: viewPoint.x * this.scale,
+      y: viewPoint.y * this.scale,
     };
   }
 
@@ -155,8 +160,10 @@ export class OverlayCanvas {
       const imported = paper.project.importSVG(svg);
 
       if (imported) {
-        // Compensate for low-resolution overlay scale without offset
+        // Compensate for low-resolution overlay scale without offset, then
+        // map from view to project coordinates (undo pan / zoom).
         imported.scale(1 / this.getScale(), new paper.Point(0, 0));
+        if (paper.view) imported.transform(paper.view.matrix.inverted());
 
         const primary = window.globalColors?.primary || "#007acc";
         const secondary = window.globalColors?.secondary || "#ff6b6b";
@@ -173,6 +180,10 @@ export class OverlayCanvas {
           }
         };
         applyColour(imported);
+
+        // Tracing finishes after the pointer was released, so record it as
+        // its own change (outline refresh + undo step).
+        window.paperManager?.notifyProjectChanged?.();
       }
 
       return imported;
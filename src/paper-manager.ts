@@ -1,15 +1,33 @@
 import { TOOL_TEMPLATES } from "./tool-templates.js";
 import { ToolSystem } from "./tool-system.js";
+import { ToolLibrary } from "./tool-library.js";
+import { WorkingCode } from "./working-code.js";
+import { WatchdogError } from "./watchdog.js";
+import { compileTool, locateToolError } from "./tool-factory.js";
+import type { ToolErrorLocation } from "./tool-factory.js";
 import type { Tool } from "./tool-system.js";
 import type {
   PaperManagerEvent,
   PaperManagerEventType,
   EventListener,
+  PageSettings,
+  ToolTemplate,
 } from "./types.js";
 
+/** Marker stored in `item.data.role` for the page background rectangle. */
+export const PAGE_ROLE = "page";
+
 export class PaperManager {
   private currentToolName: string | null = null;
   private currentCode: string = "";
+  /** Name of the tool built from `currentCode`, once it compiled. */
+  private executedToolName: string | null = null;
+  private workingCode: WorkingCode;
+  /**
+   * When enabled, Apply swaps the handlers of the active tool instead of
+   * rebuilding it (see ToolSystem.hotSwap).
+   */
+  hotReload: boolean = false;
   private eventListeners: Set<EventListener<PaperManagerEventType>> = new Set();
   /**
    * Observes changes to the canvas element's size so we can keep Paper.js
@@ -20,6 +38,7 @@ export class PaperManager {
    */
   private resizeObserver: ResizeObserver;
   private toolSystem: ToolSystem;
+  private toolLibrary: ToolLibrary;
 
   constructor(canvas: HTMLCanvasElement) {
     // Create or reuse a global tool system so components can access it too
@@ -30,6 +49,15 @@ export class PaperManager {
       window.toolSystem = this.toolSystem;
     }
 
+    // Same for the user tool library
+    if (window.toolLibrary) {
+      this.toolLibrary = window.toolLibrary;
+    } else {
+      this.toolLibrary = new ToolLibrary();
+      window.toolLibrary = this.toolLibrary;
+    }
+    this.workingCode = new WorkingCode(this.toolSystem);
+
     // Set up Paper.js
     window.paper.setup(canvas);
 
@@ -79,6 +107,53 @@ export class PaperManager {
       window.view.draw();
     };
 
+    // Tools stopped by the watchdog are disabled by the ToolSystem; tell the
+    // user why their tool no longer reacts. Other handler errors of the
+    // editor's tool are shown so the editor can mark their line.
+    this.toolSystem.addErrorListener(({ toolName, handler, error }) => {
+      if (error instanceof WatchdogError) {
+        this.notifyError(
+          `Tool "${toolName}" was stopped and disabled: ${error.message}. Fix the code and press Apply to re-enable it.`,
+          this.locateEditorError(toolName, error)
+        );
+      } else if (toolName === this.executedToolName) {
+        this.notifyError(
+          `${handler}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          this.locateEditorError(toolName, error)
+        );
+      }
+    });
+
+    // Tools whose hooks keep throwing are quarantined by the ToolSystem;
+    // explain it and offer the last working code if there is one.
+    this.toolSystem.addQuarantineListener((info) => {
+      const { toolName, handler, error, errorCount } = info;
+      const reason =
+        error instanceof WatchdogError
+          ? `${handler} was stopped by the watchdog`
+          : `${handler} threw ${errorCount} times in a row`;
+      const message = `Tool "${toolName}" was suspended: ${reason} (${
+        error instanceof Error ? error.message : String(error)
+      }).`;
+      this.notifyToolQuarantined(
+        toolName,
+        message,
+        toolName === this.executedToolName && this.getFallbackCode() !== null
+      );
+    });
+
+    // Let interested components re-render their previews / outlines when a
+    // stroke starts or ends. Moves are not announced: recalculating large
+    // drawings or the outline panel on every move is too slow.
+    this.toolSystem.addChangeListener(() => this.notifyProjectChanged());
+    // Async hooks (e.g. tracing a raster) edit the project after their event
+    // was handled; announce the result once the tool is idle.
+    this.toolSystem.addBusyListener((_toolName, busy) => {
+      if (!busy) this.notifyProjectChanged();
+    });
+
     // Forward uncaught runtime errors to the UI so users can see what went wrong
     window.addEventListener("error", (event: ErrorEvent) => {
       console.error("Global error caught:", event.message);
@@ -106,8 +181,8 @@ export class PaperManager {
       // Clean up current tool
       this.cleanup();
 
-      // Get tool template
-      const template = TOOL_TEMPLATES[toolName];
+      // Get tool template (built-in or from the user library)
+      const template = this.resolveTool(toolName);
       if (!template) {
         throw new Error(`Tool "${toolName}" not found`);
       }
@@ -132,59 +207,146 @@ export class PaperManager {
     }
   }
 
-  executeCode(code: string): void {
+  /**
+   * Look up a tool by key: built-in templates first, then user tools.
+   */
+  resolveTool(toolName: string): ToolTemplate | undefined {
+    return TOOL_TEMPLATES[toolName] ?? this.toolLibrary.get(toolName);
+  }
+
+  /**
+   * Load a tool from previously saved code (e.g. from a document file) instead
+   * of its template. `toolName` is the template key the code belonged to, or
+   * null for code that was not based on a template.
+   */
+  restoreTool(toolName: string | null, code: string): void {
+    this.cleanup();
+    this.currentToolName = toolName;
+    this.executeCode(code);
+    this.notifyToolChanged(toolName ?? "", code);
+  }
+
+  executeCode(code: string, options: { hot?: boolean } = {}): void {
     try {
       console.log("Executing tool code (ToolSystem)...");
 
+      this.rememberWorkingCode();
+
       // Store the code
       this.currentCode = code;
 
-      // Build a function expecting to return a Tool object
-      // Expose paper / project / view / toolSystem in its scope
-      const factoryFunc = new Function(
-        "paper",
-        "project",
-        "view",
-        "toolSystem",
-        `${code}`
-      ) as (
-        paper: any,
-        project: any,
-        view: any,
-        toolSystem: ToolSystem
-      ) => Tool | void;
-
-      const maybeTool = factoryFunc(
-        window.paper,
-        window.project,
-        window.view,
-        this.toolSystem
+      this.executedToolName = null;
+      const toolObj = this.compileTool(
+        code,
+        this.resolveTool(this.currentToolName ?? "")?.name
       );
 
-      const toolObj: Tool | undefined =
-        maybeTool && typeof maybeTool === "object"
-          ? (maybeTool as Tool)
-          : undefined;
-
-      if (toolObj && toolObj.name) {
-        // Register (overwrite if existing) and activate
-        this.toolSystem.register(toolObj);
-        this.toolSystem.activate(toolObj.name);
+      if (toolObj) {
+        this.executedToolName = toolObj.name;
+        // Hot reload keeps the running tool object; otherwise register
+        // (overwrite if existing) and activate
+        if (!(options.hot && this.toolSystem.hotSwap(toolObj))) {
+          this.toolSystem.register(toolObj);
+          this.toolSystem.activate(toolObj.name);
+        }
 
         // Notify outline etc.
         this.notifyProjectChanged();
       }
     } catch (error) {
       console.error("Error executing custom tool code:", error);
+      this.notifyError(
+        error instanceof Error ? error.message : "Unknown error",
+        locateToolError(error) ?? undefined
+      );
+    }
+  }
+
+  /** Keep the editor's code as the fallback if its tool proved to work. */
+  private rememberWorkingCode(): void {
+    if (this.executedToolName) {
+      this.workingCode.remember(this.executedToolName, this.currentCode);
+    }
+  }
+
+  /**
+   * Code to fall back to for the editor's tool: the last version that
+   * worked, else its saved template. Null if that's the current code.
+   */
+  getFallbackCode(): string | null {
+    const working = this.executedToolName
+      ? this.workingCode.get(this.executedToolName)
+      : undefined;
+    const code =
+      working ?? this.resolveTool(this.currentToolName ?? "")?.code ?? null;
+    return code !== this.currentCode ? code : null;
+  }
+
+  /** Replace the editor's (quarantined) tool with its fallback code. */
+  restoreWorkingCode(): void {
+    const code = this.getFallbackCode();
+    if (code === null) return;
+    this.executeCode(code);
+    this.notifyToolChanged(this.currentToolName ?? "", code);
+  }
+
+  /**
+   * Location of a handler error in the editor's code, or undefined if the
+   * tool that threw was compiled from other code (e.g. spring-loaded).
+   */
+  private locateEditorError(
+    toolName: string,
+    error: unknown
+  ): ToolErrorLocation | undefined {
+    if (toolName !== this.executedToolName) return undefined;
+    return locateToolError(error) ?? undefined;
+  }
+
+  private compileTool(code: string, label?: string): Tool | undefined {
+    return compileTool(
+      code,
+      this.toolSystem,
+      {
+        paper: window.paper,
+        project: window.project,
+        view: window.view,
+        resolveModule: (key) => this.toolLibrary.get(key)?.code,
+      },
+      label
+    );
+  }
+
+  /**
+   * Activate a tool only while a key is held (see ToolSystem.springLoad).
+   * The editor keeps showing the current tool's code. Returns false if the
+   * tool is already active or couldn't be switched to.
+   */
+  springLoadTool(toolName: string): boolean {
+    try {
+      const template = this.resolveTool(toolName);
+      if (!template) {
+        throw new Error(`Tool "${toolName}" not found`);
+      }
+      const toolObj = this.compileTool(template.code, template.name);
+      if (!toolObj) return false;
+      // Registering under the active tool's name would replace it.
+      if (toolObj.name === this.toolSystem.getActiveToolName()) return false;
+      if (this.toolSystem.isSpringLoaded()) return false;
+
+      this.toolSystem.register(toolObj);
+      return this.toolSystem.springLoad(toolObj.name);
+    } catch (error) {
+      console.error("Error loading spring-loaded tool:", error);
       this.notifyError(
         error instanceof Error ? error.message : "Unknown error"
       );
+      return false;
     }
   }
 
   updateCode(code: string): void {
-    // When user edits code, we clear everything and start fresh
-    this.executeCode(code);
+    // When user edits code, we start the tool fresh unless hot reload is on
+    this.executeCode(code, { hot: this.hotReload });
     this.notifyCodeChanged(code);
   }
 
@@ -208,6 +370,54 @@ export class PaperManager {
     this.clearCanvas();
   }
 
+  /**
+   * Replace the project with an empty document: a locked "Background" layer
+   * holding the page rectangle and an empty "Layer 1" ready for drawing.
+   */
+  newDocument(page: PageSettings): void {
+    const paper = window.paper;
+    const project = window.project;
+    if (!project) return;
+
+    project.clear();
+
+    const background = new paper.Layer({ name: "Background" });
+    const pageRect = new paper.Path.Rectangle({
+      point: [0, 0],
+      size: [page.width, page.height],
+      fillColor: page.background,
+      name: "Page",
+    });
+    pageRect.data = { role: PAGE_ROLE };
+    background.addChild(pageRect);
+    background.locked = true;
+
+    const drawing = new paper.Layer({ name: "Layer 1" });
+    drawing.activate();
+
+    // Show the whole page; fall back to centring it if there is no viewport.
+    if (window.inputSystem) {
+      window.inputSystem.viewport.zoomToFit();
+    } else if (window.view) {
+      window.view.center = pageRect.bounds.center;
+      window.view.draw();
+    }
+
+    this.notifyDocumentReset();
+    this.notifyProjectChanged();
+  }
+
+  /**
+   * Bounds of the page rectangle created by newDocument(), or null for
+   * documents without a page.
+   */
+  getPageBounds(): any | null {
+    const page = window.project?.getItem({
+      data: { role: PAGE_ROLE },
+    });
+    return page ? page.bounds.clone() : null;
+  }
+
   private cleanup(): void {
     console.log("Cleaning up previous tools (keeping artwork)");
 
@@ -275,16 +485,45 @@ export class PaperManager {
     });
   }
 
-  private notifyError(message: string): void {
+  private notifyError(message: string, location?: ToolErrorLocation): void {
     this.eventListeners.forEach((listener) => {
       if (listener.type === "error") {
         (listener.callback as (event: PaperManagerEvent["error"]) => void)({
           message,
+          location,
         });
       }
     });
   }
 
+  private notifyToolQuarantined(
+    toolName: string,
+    message: string,
+    canRestore: boolean
+  ): void {
+    this.eventListeners.forEach((listener) => {
+      if (listener.type === "toolQuarantined") {
+        (
+          listener.callback as (
+            event: PaperManagerEvent["toolQuarantined"]
+          ) => void
+        )({ toolName, message, canRestore });
+      }
+    });
+  }
+
+  notifyDocumentReset(): void {
+    this.eventListeners.forEach((listener) => {
+      if (listener.type === "documentReset") {
+        (
+          listener.callback as (
+            event: PaperManagerEvent["documentReset"]
+          ) => void
+        )({});
+      }
+    });
+  }
+
   notifyProjectChanged(): void {
     this.eventListeners.forEach((listener) => {
       if (listener.type === "projectChanged") {
@@ -0,0 +1,215 @@
+/*
+ * StrokeStabilizer – smooths the pointer stream before it reaches the tools.
+ *
+ * InputManager runs every pointer event through process(); what comes out is
+ * what tools, the PointerSessionManager and input recordings see. Stages, in
+ * order:
+ *
+ * - Lazy mouse ("string"): the stroke point trails the pointer on a string of
+ *   fixed length and only moves when the string is pulled tight.
+ * - Moving average over the last few points.
+ * - Exponential smoothing of pressure.
+ */
+import type { PointerData } from "./tool-system.js";
+
+const STORAGE_KEY = "canvascode:stabilizer";
+
+export interface StabilizerSettings {
+  enabled: boolean;
+  /** Lazy-mouse string length in screen pixels; 0 turns it off. */
+  stringLength: number;
+  /** Number of points averaged; 1 turns it off. */
+  smoothing: number;
+  /** 0 (off) … 0.95 (very smooth) – weight of the previous pressure. */
+  pressureSmoothing: number;
+}
+
+export const DEFAULT_STABILIZER_SETTINGS: StabilizerSettings = {
+  enabled: true,
+  stringLength: 0,
+  smoothing: 3,
+  pressureSmoothing: 0.3,
+};
+
+interface StrokeState {
+  /** Lazy-mouse anchor in project coordinates. */
+  anchor: { x: number; y: number };
+  /** Recent anchor positions for the moving average. */
+  recent: Array<{ x: number; y: number }>;
+  /** Point of the last sample handed to the tool. */
+  last: { x: number; y: number };
+  pressure: number;
+}
+
+export class StrokeStabilizer {
+  private settings: StabilizerSettings;
+  private strokes: Map<number, StrokeState> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  /** Without `settings` the stored settings are used. */
+  constructor(settings?: Partial<StabilizerSettings>) {
+    this.settings = settings
+      ? sanitize({ ...DEFAULT_STABILIZER_SETTINGS, ...settings })
+      : this.load();
+  }
+
+  getSettings(): StabilizerSettings {
+    return { ...this.settings };
+  }
+
+  /** Update some settings and persist them. */
+  update(changes: Partial<StabilizerSettings>): void {
+    this.settings = sanitize({ ...this.settings, ...changes });
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (err) {
+      console.error("Stabilizer: could not store settings", err);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Stabilize one pointer event. Returns the data to hand to the tool, or
+   * null if the event should be dropped (the string is still slack).
+   */
+  process(
+    type: "pointerdown" | "pointermove" | "pointerup",
+    data: PointerData
+  ): PointerData | null {
+    if (!this.settings.enabled) return data;
+
+    const raw = { x: data.point.x, y: data.point.y };
+
+    if (type === "pointerdown") {
+      this.strokes.set(data.pointerId, {
+        anchor: raw,
+        recent: [raw],
+        last: raw,
+        pressure: data.pressure,
+      });
+      return data;
+    }
+
+    const stroke = this.strokes.get(data.pointerId);
+    // Hover moves and strokes that started before enabling pass through.
+    if (!stroke) return data;
+
+    const { smoothing, pressureSmoothing } = this.settings;
+    if (type === "pointerup") {
+      // The stroke catches up and ends exactly where it was released.
+      this.strokes.delete(data.pointerId);
+      stroke.anchor = raw;
+      stroke.recent = [raw];
+    } else if (this.pullString(stroke, raw)) {
+      stroke.recent.push({ ...stroke.anchor });
+      if (stroke.recent.length > smoothing) {
+        stroke.recent.splice(0, stroke.recent.length - smoothing);
+      }
+    } else {
+      return null;
+    }
+    const point = average(stroke.recent);
+    stroke.last = point;
+    stroke.pressure =
+      stroke.pressure * pressureSmoothing +
+      data.pressure * (1 - pressureSmoothing);
+
+    return {
+      ...data,
+      point: new window.paper.Point(point.x, point.y),
+      pressure: stroke.pressure,
+    };
+  }
+
+  /**
+   * The stabilized stroke trails the pointer. Call this before process() for
+   * a pointerup: it returns a pointermove sample at the release point so the
+   * tool draws all the way there, or null if the stroke is already there.
+   */
+  catchUp(data: PointerData): PointerData | null {
+    if (!this.settings.enabled) return null;
+    const stroke = this.strokes.get(data.pointerId);
+    if (!stroke) return null;
+    const raw = { x: data.point.x, y: data.point.y };
+    if (stroke.last.x === raw.x && stroke.last.y === raw.y) return null;
+
+    stroke.last = raw;
+    return {
+      ...data,
+      point: new window.paper.Point(raw.x, raw.y),
+      pressure: stroke.pressure,
+    };
+  }
+
+  /** Forget a pointer's stroke, e.g. when it was cancelled. */
+  reset(pointerId: number): void {
+    this.strokes.delete(pointerId);
+  }
+
+  addListener(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  /** Move the anchor towards `raw`; returns false if the string is slack. */
+  private pullString(
+    stroke: StrokeState,
+    raw: { x: number; y: number }
+  ): boolean {
+    // The string length is in screen pixels so it feels the same at any zoom.
+    const length = this.settings.stringLength / (window.view?.zoom ?? 1);
+    const dx = raw.x - stroke.anchor.x;
+    const dy = raw.y - stroke.anchor.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0 || distance <= length) return false;
+
+    const t = (distance - length) / distance;
+    stroke.anchor = {
+      x: stroke.anchor.x + dx * t,
+      y: stroke.anchor.y + dy * t,
+    };
+    return true;
+  }
+
+  private load(): StabilizerSettings {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        return sanitize({ ...DEFAULT_STABILIZER_SETTINGS, ...JSON.parse(raw) });
+      }
+    } catch {
+      // Fall back to the defaults
+    }
+    return { ...DEFAULT_STABILIZER_SETTINGS };
+  }
+}
+
+function sanitize(settings: StabilizerSettings): StabilizerSettings {
+  const num = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? value : fallback;
+  return {
+    enabled: settings.enabled !== false,
+    stringLength: Math.max(0, num(settings.stringLength, 0)),
+    smoothing: Math.max(1, Math.round(num(settings.smoothing, 1))),
+    pressureSmoothing: Math.min(
+      0.95,
+      Math.max(0, num(settings.pressureSmoothing, 0))
+    ),
+  };
+}
+
+function average(points: Array<{ x: number; y: number }>): {
+  x: number;
+  y: number;
+} {
+  let x = 0;
+  let y = 0;
+  points.forEach((p) => {
+    x += p.x;
+    y += p.y;
+  });
+  return { x: x / points.length, y: y / points.length };
+}
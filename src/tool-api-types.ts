@@ -0,0 +1,132 @@
+/*
+ * Tool API types – declarations the code editor checks tool code against.
+ *
+ * The shapes of Tool, PointerData, KeyData and ToolSystem come straight from
+ * the app's own tool-system.ts (loaded next to this file by the language
+ * worker), so they can't drift. This file only adds what tool authors see on
+ * top of that: typed `paper` objects, the free-form state on `this`, and the
+ * globals tools are allowed to use.
+ */
+
+/**
+ * Version of the API tool code is written against (hooks, event data,
+ * globals and modules). Tool packages record it; bump it when tool code can
+ * use something older versions lack (2: ES module tools and "std").
+ */
+export const TOOL_API_VERSION = 2;
+
+/** Virtual path of the declarations below inside the language worker. */
+export const TOOL_API_FILE = "/tool-api.d.ts";
+
+export const TOOL_API_DECLARATIONS = `
+import type {
+  Tool,
+  PointerData,
+  KeyData,
+  WheelData,
+  ToolSystem,
+} from "./src/tool-system.js";
+import type { OverlayCanvas as OverlayCanvasClass } from "./src/overlay-canvas.js";
+
+declare global {
+  /** Pointer sample passed to the pointer hooks. */
+  interface ToolPointerEvent extends PointerData {
+    /** Position in project coordinates. */
+    point: paper.Point;
+    predicted?: ToolPointerEvent[];
+  }
+
+  /** Wheel / trackpad scroll passed to onWheel. */
+  interface ToolWheelEvent extends WheelData {
+    /** Position under the cursor in project coordinates. */
+    point: paper.Point;
+  }
+
+  type ToolKeyEvent = KeyData;
+
+  /**
+   * The object tool code returns. Besides the hooks, any property can be
+   * used to keep state on \`this\`. Hooks may be async; later input waits
+   * until the returned promise settles. A promise that takes longer than
+   * 10 seconds gets the tool quarantined like an endless loop.
+   */
+  interface ToolObject extends Tool {
+    /** Pointer pressed on the canvas. */
+    onPointerDown?(e: ToolPointerEvent): void;
+    /** Pointer moved while pressed (dragging). */
+    onPointerMove?(e: ToolPointerEvent): void;
+    /** Pointer released. May be async, e.g. to trace a raster. */
+    onPointerUp?(e: ToolPointerEvent): void | Promise<void>;
+    /** Pointer moved without being pressed, e.g. to draw a brush preview. */
+    onPointerHover?(e: ToolPointerEvent): void;
+    /** Pointer entered the canvas. */
+    onPointerEnter?(e: ToolPointerEvent): void;
+    /** Pointer left the canvas; remove hover previews here. */
+    onPointerLeave?(e: ToolPointerEvent): void;
+    /**
+     * The stroke was cancelled and its edits are rolled back. Without
+     * onCancel, onPointerUp is called.
+     */
+    onCancel?(e: ToolPointerEvent): void;
+    /**
+     * Mouse wheel / trackpad scroll. Return true to stop the view from
+     * zooming; Ctrl / Cmd + wheel always zooms.
+     */
+    onWheel?(e: ToolWheelEvent): boolean | void;
+    /** Current parameter values, keyed like \`parameters\`. */
+    params?: { [key: string]: any };
+    [key: string]: any;
+  }
+
+  /** Tool code is the body of a function with this signature. */
+  type ToolFactory = (
+    paper: typeof import("paper"),
+    project: paper.Project,
+    view: paper.View,
+    toolSystem: ToolSystem
+  ) => ToolObject | void;
+
+  // In module tool code (with import / export) the factory's parameters are
+  // globals; the default export is checked as a ToolObject.
+  const project: paper.Project;
+  const view: paper.View;
+  const toolSystem: ToolSystem;
+
+  interface ToolColors {
+    primary: string;
+    secondary: string;
+  }
+
+  interface GlobalColors extends ToolColors {
+    setPrimary(color: string): void;
+    setSecondary(color: string): void;
+    addListener(listener: (colors: ToolColors) => void): void;
+    removeListener(listener: (colors: ToolColors) => void): void;
+  }
+
+  interface Window {
+    /** The colours picked in the color panel. */
+    globalColors: GlobalColors;
+    /** Low-resolution raster overlay for pixel tools; see Pixel Brush. */
+    OverlayCanvas: typeof OverlayCanvasClass;
+    paper: typeof import("paper");
+    project: paper.Project;
+    view: paper.View;
+    toolSystem: ToolSystem;
+  }
+}
+
+export {};
+`;
+
+/** Virtual path of the module declarations below. */
+export const TOOL_MODULES_FILE = "/tool-modules.d.ts";
+
+/**
+ * Modules tool code can import that the worker has no sources for. The
+ * "std" modules are real files (src/tool-std), mapped via `paths`.
+ */
+export const TOOL_MODULE_DECLARATIONS = `
+/** Another user tool; its exports are not typed. */
+declare module "user:*";
+`;
@@ -0,0 +1,155 @@
+/*
+ * ToolConsole – collects what tool code logs and the errors its hooks throw,
+ * so they can be read in the console panel (also on tablets, where there are
+ * no devtools).
+ *
+ * Tool code gets a console of its own (see createConsole) that records each
+ * call labelled with the tool's name and still forwards it to the browser
+ * console. Stack frames are mapped to the lines of the tool code.
+ */
+import { mapToolStack } from "./tool-factory.js";
+import type { ToolStackFrame } from "./tool-factory.js";
+
+export type ConsoleLevel = "log" | "info" | "warn" | "error";
+
+export interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  toolName: string;
+  /** Hook that threw, e.g. "onPointerMove", or "factory" for the tool code. */
+  handler?: string;
+  message: string;
+  /**
+   * Frames in tool code, innermost first. For logs the first frame is the
+   * line of the console call.
+   */
+  stack: ToolStackFrame[];
+  /** Time of the last occurrence (Date.now()). */
+  time: number;
+  /** Identical entries in a row are merged; this counts them. */
+  count: number;
+}
+
+/** Oldest entries are dropped beyond this. */
+const MAX_ENTRIES = 500;
+
+export class ToolConsole {
+  private entries: ConsoleEntry[] = [];
+  private nextId = 1;
+  private listeners: Set<() => void> = new Set();
+
+  getEntries(): ConsoleEntry[] {
+    return this.entries;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.notify();
+  }
+
+  /**
+   * Console for tool code. `source.toolName` is read on every call, so the
+   * label can be updated once the tool's real name is known.
+   */
+  createConsole(source: { toolName: string }): Console {
+    const toolConsole = Object.create(console) as Console;
+    const record =
+      (level: ConsoleLevel, forward: (...args: unknown[]) => void) =>
+      (...args: unknown[]) => {
+        forward(`[${source.toolName}]`, ...args);
+        const error = args.find((arg) => arg instanceof Error) as
+          | Error
+          | undefined;
+        this.add(level, source.toolName, args.map(formatValue).join(" "), {
+          stack: mapToolStack(error?.stack ?? new Error().stack ?? ""),
+        });
+      };
+    toolConsole.log = record("log", console.log);
+    toolConsole.debug = record("log", console.debug);
+    toolConsole.info = record("info", console.info);
+    toolConsole.warn = record("warn", console.warn);
+    toolConsole.error = record("error", console.error);
+    return toolConsole;
+  }
+
+  /** Record an error thrown from a tool hook or from the tool code itself. */
+  addError(toolName: string, handler: string, error: unknown): void {
+    const message =
+      error instanceof Error
+        ? `${error.name}: ${error.message}`
+        : formatValue(error);
+    const stack = error instanceof Error ? mapToolStack(error.stack ?? "") : [];
+    this.add("error", toolName, message, { handler, stack });
+  }
+
+  add(
+    level: ConsoleLevel,
+    toolName: string,
+    message: string,
+    options: { handler?: string; stack?: ToolStackFrame[] } = {}
+  ): void {
+    const stack = options.stack ?? [];
+    const last = this.entries[this.entries.length - 1];
+    if (
+      last &&
+      last.level === level &&
+      last.toolName === toolName &&
+      last.handler === options.handler &&
+      last.message === message &&
+      last.stack[0]?.line === stack[0]?.line
+    ) {
+      // Replace the entry so views that compare by identity re-render it.
+      this.entries[this.entries.length - 1] = {
+        ...last,
+        count: last.count + 1,
+        time: Date.now(),
+      };
+    } else {
+      this.entries.push({
+        id: this.nextId++,
+        level,
+        toolName,
+        handler: options.handler,
+        message,
+        stack,
+        time: Date.now(),
+        count: 1,
+      });
+      if (this.entries.length > MAX_ENTRIES) {
+        this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+      }
+    }
+    this.notify();
+  }
+
+  addListener(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/** Text for one console argument, roughly as the browser console shows it. */
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (value === null || typeof value !== "object") return String(value);
+  if (Array.isArray(value)) return safeStringify(value);
+  // Paper.js objects (Point, Color, …) have a readable toString().
+  if (value.toString !== Object.prototype.toString) return String(value);
+  return safeStringify(value);
+}
+
+function safeStringify(value: object): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
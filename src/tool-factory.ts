@@ -0,0 +1,222 @@
+/*
+ * Tool factory – the contract between tool code and the app.
+ *
+ * Tool code is the body of a function that receives `paper`, `project`,
+ * `view` and `toolSystem` and returns a Tool object, or an ES module whose
+ * default export is the tool (see tool-modules.ts). Modules can import the
+ * standard library ("std", "std/geometry", …) and other user tools
+ * ("user:…"). Loops are instrumented so the ToolSystem's watchdog can stop
+ * runaway code. PaperManager and the headless tool harness both compile
+ * tools through here.
+ *
+ * `console` inside tool code is the ToolSystem's tool console, so logs and
+ * errors show up in the console panel labelled with the tool's name.
+ */
+import { instrumentLoops, WATCHDOG_GUARD } from "./watchdog.js";
+import {
+  isModuleCode,
+  transformModule,
+  ToolModuleError,
+  MODULE_EXPORTS,
+  MODULE_IMPORT,
+} from "./tool-modules.js";
+import { isUserToolKey } from "./tool-library.js";
+import * as std from "./tool-std/index.js";
+import * as geometry from "./tool-std/geometry.js";
+import * as hitTest from "./tool-std/hit-test.js";
+import * as snap from "./tool-std/snap.js";
+import * as color from "./tool-std/color.js";
+import * as random from "./tool-std/random.js";
+import type { Tool, ToolSystem } from "./tool-system.js";
+
+export interface ToolScope {
+  paper: any;
+  project: any;
+  view: any;
+  /** Code of a user tool by key ("user:…"), for imports between tools. */
+  resolveModule?: (key: string) => string | undefined;
+}
+
+type ModuleExports = { [name: string]: unknown };
+
+/** Modules tool code can import besides other user tools. */
+const STD_MODULES: { [specifier: string]: ModuleExports } = {
+  std,
+  "std/geometry": geometry,
+  "std/hit-test": hitTest,
+  "std/snap": snap,
+  "std/color": color,
+  "std/random": random,
+};
+
+/**
+ * Run tool code and return the Tool object it builds, without registering
+ * it. Throws if the code fails; returns undefined if it returns no tool.
+ * `label` names the tool in the console until the code returned its tool.
+ */
+export function compileTool(
+  code: string,
+  toolSystem: ToolSystem,
+  scope: ToolScope,
+  label: string = "Tool"
+): Tool | undefined {
+  const source = { toolName: label };
+
+  try {
+    const maybeTool = runToolCode(code, toolSystem, scope, source, new Map())
+      .value as Tool | void;
+
+    if (maybeTool && typeof maybeTool === "object" && maybeTool.name) {
+      source.toolName = maybeTool.name;
+      return maybeTool as Tool;
+    }
+    return undefined;
+  } catch (err) {
+    toolSystem.toolConsole.addError(source.toolName, "factory", err);
+    throw err;
+  }
+}
+
+/**
+ * Run tool code once. `value` is the tool: what plain tool code returned or
+ * a module's default export. `exports` is set for module code.
+ * `modules` holds what this compile imported; null marks one still loading.
+ */
+function runToolCode(
+  code: string,
+  toolSystem: ToolSystem,
+  scope: ToolScope,
+  source: { toolName: string },
+  modules: Map<string, ModuleExports | null>
+): { value: unknown; exports: ModuleExports | null } {
+  const isModule = isModuleCode(code);
+  const factoryFunc = new Function(
+    "paper",
+    "project",
+    "view",
+    "toolSystem",
+    "console",
+    WATCHDOG_GUARD,
+    MODULE_IMPORT,
+    MODULE_EXPORTS,
+    instrumentLoops(isModule ? transformModule(code) : code)
+  ) as (
+    paper: any,
+    project: any,
+    view: any,
+    toolSystem: ToolSystem,
+    console: Console,
+    guard: () => true,
+    importModule: (specifier: string) => ModuleExports,
+    exports: ModuleExports
+  ) => unknown;
+
+  const exports: ModuleExports = {};
+  const watchdog = toolSystem.watchdog;
+  const result = watchdog.run("Tool factory", () =>
+    factoryFunc(
+      scope.paper,
+      scope.project,
+      scope.view,
+      toolSystem,
+      toolSystem.toolConsole.createConsole(source),
+      watchdog.guard,
+      (specifier) => importModule(specifier, toolSystem, scope, modules),
+      exports
+    )
+  );
+  return isModule
+    ? { value: exports.default, exports }
+    : { value: result, exports: null };
+}
+
+function importModule(
+  specifier: string,
+  toolSystem: ToolSystem,
+  scope: ToolScope,
+  modules: Map<string, ModuleExports | null>
+): ModuleExports {
+  const builtIn = STD_MODULES[specifier];
+  if (builtIn) return builtIn;
+  if (!isUserToolKey(specifier)) {
+    throw new Error(
+      `Unknown module "${specifier}": import from "std", "std/<module>" or another tool ("user:<key>")`
+    );
+  }
+
+  const loaded = modules.get(specifier);
+  if (loaded) return loaded;
+  if (loaded === null) throw new Error(`Circular import of "${specifier}"`);
+  const code = scope.resolveModule?.(specifier);
+  if (code === undefined) throw new Error(`Tool "${specifier}" not found`);
+
+  modules.set(specifier, null);
+  const { value, exports } = runToolCode(
+    code,
+    toolSystem,
+    scope,
+    { toolName: specifier },
+    modules
+  );
+  // Plain tool code has no exports; its tool is the default export.
+  const module = exports ?? { default: value };
+  modules.set(specifier, module);
+  return module;
+}
+
+/** Position in tool code, 1-based like editor line numbers. */
+export interface ToolErrorLocation {
+  line: number;
+  column: number;
+}
+
+/** Stack frame inside tool code. */
+export interface ToolStackFrame extends ToolErrorLocation {
+  /** Function name, e.g. "onPointerDown"; null for the tool code's body. */
+  functionName: string | null;
+}
+
+/**
+ * `new Function` puts "function anonymous(…" and ") {" before the body, so
+ * line numbers in its stack frames are two higher than in the tool code.
+ */
+const FUNCTION_HEADER_LINES = 2;
+
+/**
+ * Find where in the tool code an error was thrown, from the innermost stack
+ * frame of compiled tool code. Returns null for errors without such a frame,
+ * e.g. syntax errors, which browsers report without a position. Unsupported
+ * module syntax is reported at its line.
+ */
+export function locateToolError(error: unknown): ToolErrorLocation | null {
+  if (error instanceof ToolModuleError) return { line: error.line, column: 1 };
+  const stack = error instanceof Error ? error.stack : undefined;
+  const [frame] = stack ? mapToolStack(stack) : [];
+  return frame ? { line: frame.line, column: frame.column } : null;
+}
+
+/**
+ * The frames of a stack trace that lie in compiled tool code, innermost
+ * first, with lines mapped to the tool code. App frames are dropped.
+ */
+export function mapToolStack(stack: string): ToolStackFrame[] {
+  const frames: ToolStackFrame[] = [];
+  for (const text of stack.split("\n")) {
+    // Chrome: "at Object.onDown (eval at compileTool (…), <anonymous>:5:22)",
+    // Firefox: "onDown@…line 35 > Function:5:22".
+    const match = /(?:<anonymous>|> Function):(\d+):(\d+)\)?\s*$/.exec(text);
+    if (!match) continue;
+    const line = parseInt(match[1], 10) - FUNCTION_HEADER_LINES;
+    if (line < 1) continue;
+
+    const name = (/^\s*at (?:new )?([^\s(]+)/.exec(text) ??
+      /^([^@]*)@/.exec(text))?.[1]?.replace(/^Object\./, "");
+    frames.push({
+      functionName:
+        !name || name === "eval" || name === "anonymous" ? null : name,
+      line,
+      column: parseInt(match[2], 10),
+    });
+  }
+  return frames;
+}
@@ -0,0 +1,287 @@
+/*
+ * Tool language worker – a TypeScript language service for tool code.
+ *
+ * Tool code is checked as JavaScript: it becomes the body of a function typed
+ * as ToolFactory (see tool-api-types.ts), so `paper`, `project`, `view`,
+ * `toolSystem` and the returned tool object are all typed. Module tool code
+ * (see tool-modules.ts) is checked as a module instead, with its default
+ * export cast to ToolObject and "std/…" imports resolved to src/tool-std.
+ * Runs in a worker because loading TypeScript and the lib files takes a
+ * moment.
+ */
+import ts from "typescript";
+import paperTypes from "paper/dist/paper.d.ts?raw";
+import toolSystemSource from "./tool-system.ts?raw";
+import toolParamsSource from "./tool-params.ts?raw";
+import watchdogSource from "./watchdog.ts?raw";
+import overlayCanvasSource from "./overlay-canvas.ts?raw";
+import toolConsoleSource from "./tool-console.ts?raw";
+import toolFactorySource from "./tool-factory.ts?raw";
+import {
+  TOOL_API_FILE,
+  TOOL_API_DECLARATIONS,
+  TOOL_MODULES_FILE,
+  TOOL_MODULE_DECLARATIONS,
+} from "./tool-api-types.js";
+import { isModuleCode } from "./tool-modules.js";
+import type {
+  ToolLanguageRequest,
+  ToolDiagnostic,
+  ToolCompletion,
+  ToolHoverInfo,
+} from "./tool-language.js";
+
+const TOOL_FILE = "/tool.js";
+const PAPER_FILE = "/paper.d.ts";
+
+/** Lines put around the tool code; positions are shifted by the prefix. */
+const TOOL_PREFIX =
+  "/** @type {ToolFactory} */\n" +
+  "const __tool = function (paper, project, view, toolSystem) {\n";
+const TOOL_SUFFIX = "\n};\n";
+/** Put around a module's default export so it is typed like a returned tool. */
+const DEFAULT_EXPORT_CAST = "/** @type {ToolObject} */ (";
+
+/** Text inserted into the checked file before `at` (an offset in the code). */
+interface Insertion {
+  at: number;
+  length: number;
+}
+
+const stdSources = import.meta.glob("./tool-std/*.ts", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+}) as Record<string, string>;
+
+// The lib files `options.lib` pulls in through its references. The
+// "*.full" variants are never referenced.
+const libSources = import.meta.glob(
+  [
+    "../node_modules/typescript/lib/lib.{es5,es2015*,es2016*,es2017*,es2018*,es2019*,es2020*,dom,dom.iterable,decorators,decorators.legacy}.d.ts",
+    "!../node_modules/typescript/lib/lib.*.full.d.ts",
+  ],
+  { query: "?raw", import: "default", eager: true }
+) as Record<string, string>;
+
+const files: Map<string, string> = new Map([
+  [PAPER_FILE, paperTypes],
+  [TOOL_API_FILE, TOOL_API_DECLARATIONS],
+  [TOOL_MODULES_FILE, TOOL_MODULE_DECLARATIONS],
+  ["/src/tool-system.ts", toolSystemSource],
+  ["/src/tool-params.ts", toolParamsSource],
+  ["/src/watchdog.ts", watchdogSource],
+  ["/src/overlay-canvas.ts", overlayCanvasSource],
+  ["/src/tool-console.ts", toolConsoleSource],
+  ["/src/tool-factory.ts", toolFactorySource],
+  [TOOL_FILE, TOOL_PREFIX + TOOL_SUFFIX],
+]);
+Object.entries(libSources).forEach(([path, source]) => {
+  files.set("/" + path.slice(path.lastIndexOf("/") + 1), source);
+});
+Object.entries(stdSources).forEach(([path, source]) => {
+  files.set("/src/tool-std/" + path.slice(path.lastIndexOf("/") + 1), source);
+});
+
+let code = "";
+let version = 0;
+/** Whether `code` is module code; see setCode. */
+let isModule = false;
+let insertions: Insertion[] = [];
+
+const options: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+  paths: {
+    std: ["/src/tool-std/index.ts"],
+    "std/*": ["/src/tool-std/*.ts"],
+  },
+  allowSyntheticDefaultImports: true,
+  allowJs: true,
+  checkJs: true,
+  skipLibCheck: true,
+  noEmit: true,
+  types: [],
+};
+
+const host: ts.LanguageServiceHost = {
+  getCompilationSettings: () => options,
+  getScriptFileNames: () => [
+    PAPER_FILE,
+    TOOL_API_FILE,
+    TOOL_MODULES_FILE,
+    TOOL_FILE,
+  ],
+  getScriptVersion: (file) => (file === TOOL_FILE ? String(version) : "0"),
+  getScriptSnapshot: (file) => {
+    const text = files.get(file);
+    return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+  },
+  getCurrentDirectory: () => "/",
+  getDefaultLibFileName: () => "/lib.d.ts",
+  fileExists: (file) => files.has(file),
+  readFile: (file) => files.get(file),
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+function setCode(next: string): void {
+  if (next === code) return;
+  code = next;
+  version++;
+  isModule = isModuleCode(code);
+  insertions = isModule
+    ? defaultExportCast(code)
+    : [{ at: 0, length: TOOL_PREFIX.length }];
+  files.set(TOOL_FILE, buildToolFile());
+}
+
+/** Insertions that wrap the default export in DEFAULT_EXPORT_CAST. */
+function defaultExportCast(moduleCode: string): Insertion[] {
+  const source = ts.createSourceFile(
+    TOOL_FILE,
+    moduleCode,
+    ts.ScriptTarget.ES2020,
+    true,
+    ts.ScriptKind.JS
+  );
+  const statement = source.statements.find(
+    (node): node is ts.ExportAssignment =>
+      ts.isExportAssignment(node) && !node.isExportEquals
+  );
+  if (!statement) return [];
+  return [
+    {
+      at: statement.expression.getStart(source),
+      length: DEFAULT_EXPORT_CAST.length,
+    },
+    { at: statement.expression.end, length: 1 },
+  ];
+}
+
+function buildToolFile(): string {
+  if (!isModule) return TOOL_PREFIX + code + TOOL_SUFFIX;
+  if (insertions.length === 0) return code;
+  const [open, close] = insertions;
+  return (
+    code.slice(0, open.at) +
+    DEFAULT_EXPORT_CAST +
+    code.slice(open.at, close.at) +
+    ")" +
+    code.slice(close.at)
+  );
+}
+
+/** Offset in the checked file of an offset in the code. */
+function toFile(pos: number): number {
+  return insertions.reduce(
+    (result, insertion) =>
+      insertion.at <= pos ? result + insertion.length : result,
+    pos
+  );
+}
+
+/** Offset in the code of an offset in the checked file. */
+function toCode(pos: number): number {
+  let shift = 0;
+  for (const insertion of insertions) {
+    const start = insertion.at + shift;
+    if (pos < start) break;
+    if (pos < start + insertion.length) return insertion.at;
+    shift += insertion.length;
+  }
+  return clampToCode(pos - shift);
+}
+
+/* ---------- Requests ---------- */
+
+function getDiagnostics(): ToolDiagnostic[] {
+  const diagnostics = [
+    ...service.getSyntacticDiagnostics(TOOL_FILE),
+    ...service.getSemanticDiagnostics(TOOL_FILE),
+  ];
+  return diagnostics.map((d) => {
+    const start = d.start ?? 0;
+    return {
+      from: toCode(start),
+      to: toCode(start + (d.length ?? 0)),
+      message: ts.flattenDiagnosticMessageText(d.messageText, "\n"),
+      severity:
+        d.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+    };
+  });
+}
+
+function getCompletions(pos: number): ToolCompletion[] {
+  const info = service.getCompletionsAtPosition(TOOL_FILE, toFile(pos), {});
+  if (!info) return [];
+  return info.entries
+    .filter((entry) => !entry.name.startsWith("__"))
+    .map((entry) => ({
+      label: entry.name,
+      kind: entry.kind,
+      sortText: entry.sortText,
+    }));
+}
+
+function getCompletionDetails(pos: number, name: string): ToolHoverInfo | null {
+  const details = service.getCompletionEntryDetails(
+    TOOL_FILE,
+    toFile(pos),
+    name,
+    {},
+    undefined,
+    undefined,
+    undefined
+  );
+  if (!details) return null;
+  return {
+    from: pos,
+    to: pos,
+    signature: ts.displayPartsToString(details.displayParts),
+    documentation: ts.displayPartsToString(details.documentation),
+  };
+}
+
+function getHoverInfo(pos: number): ToolHoverInfo | null {
+  const info = service.getQuickInfoAtPosition(TOOL_FILE, toFile(pos));
+  if (!info) return null;
+  const { start, length } = info.textSpan;
+  return {
+    from: toCode(start),
+    to: toCode(start + length),
+    signature: ts.displayPartsToString(info.displayParts),
+    documentation: ts.displayPartsToString(info.documentation),
+  };
+}
+
+function clampToCode(pos: number): number {
+  return Math.min(code.length, Math.max(0, pos));
+}
+
+self.onmessage = (ev: MessageEvent<ToolLanguageRequest>) => {
+  const request = ev.data;
+  let result: unknown = null;
+  try {
+    setCode(request.code);
+    switch (request.kind) {
+      case "diagnostics":
+        result = getDiagnostics();
+        break;
+      case "completions":
+        result = getCompletions(request.pos);
+        break;
+      case "completionDetails":
+        result = getCompletionDetails(request.pos, request.name);
+        break;
+      case "hover":
+        result = getHoverInfo(request.pos);
+        break;
+    }
+  } catch (err) {
+    console.error("Tool language worker:", err);
+  }
+  self.postMessage({ id: request.id, result });
+};
@@ -0,0 +1,231 @@
+/*
+ * Tool language – completions, hover docs and type errors for tool code in
+ * the code editor.
+ *
+ * The analysis runs in tool-language-worker.ts, started the first time the
+ * editor asks for it. Loading TypeScript is expensive, so type checking
+ * waits until the code editor is first focused; completions and hover
+ * already need the user. This module only talks to the worker and turns its
+ * answers into CodeMirror extensions.
+ */
+import type { Extension } from "@codemirror/state";
+import { EditorView, hoverTooltip } from "@codemirror/view";
+import type { Tooltip } from "@codemirror/view";
+import { autocompletion } from "@codemirror/autocomplete";
+import type {
+  CompletionContext,
+  CompletionResult,
+} from "@codemirror/autocomplete";
+import { linter } from "@codemirror/lint";
+import type { Diagnostic } from "@codemirror/lint";
+
+export type ToolLanguageQuery =
+  | { kind: "diagnostics"; code: string }
+  | { kind: "completions"; code: string; pos: number }
+  | { kind: "completionDetails"; code: string; pos: number; name: string }
+  | { kind: "hover"; code: string; pos: number };
+
+export type ToolLanguageRequest = ToolLanguageQuery & { id: number };
+
+/** Positions are offsets into the tool code. */
+export interface ToolDiagnostic {
+  from: number;
+  to: number;
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface ToolCompletion {
+  label: string;
+  /** TypeScript's element kind, e.g. "method" or "property". */
+  kind: string;
+  sortText: string;
+}
+
+export interface ToolHoverInfo {
+  from: number;
+  to: number;
+  signature: string;
+  documentation: string;
+}
+
+/** TypeScript element kinds → CodeMirror completion icons. */
+const COMPLETION_TYPES: { [kind: string]: string } = {
+  method: "method",
+  property: "property",
+  getter: "property",
+  setter: "property",
+  function: "function",
+  "local function": "function",
+  class: "class",
+  interface: "interface",
+  type: "type",
+  enum: "enum",
+  module: "namespace",
+  keyword: "keyword",
+  const: "constant",
+  var: "variable",
+  let: "variable",
+  "local var": "variable",
+  parameter: "variable",
+};
+
+class ToolLanguageClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending: Map<number, (result: any) => void> = new Map();
+
+  diagnostics(code: string): Promise<ToolDiagnostic[] | null> {
+    return this.send({ kind: "diagnostics", code });
+  }
+
+  completions(code: string, pos: number): Promise<ToolCompletion[] | null> {
+    return this.send({ kind: "completions", code, pos });
+  }
+
+  completionDetails(
+    code: string,
+    pos: number,
+    name: string
+  ): Promise<ToolHoverInfo | null> {
+    return this.send({ kind: "completionDetails", code, pos, name });
+  }
+
+  hover(code: string, pos: number): Promise<ToolHoverInfo | null> {
+    return this.send({ kind: "hover", code, pos });
+  }
+
+  isStarted(): boolean {
+    return this.worker !== null;
+  }
+
+  /** Resolves with null if the worker fails. */
+  private send<T>(query: ToolLanguageQuery): Promise<T | null> {
+    const worker = this.worker ?? this.start();
+    const id = this.nextId++;
+    return new Promise((resolve) => {
+      this.pending.set(id, resolve);
+      worker.postMessage({ ...query, id } satisfies ToolLanguageRequest);
+    });
+  }
+
+  private start(): Worker {
+    const worker = new Worker(
+      new URL("./tool-language-worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = (ev: MessageEvent<{ id: number; result: unknown }>) => {
+      this.pending.get(ev.data.id)?.(ev.data.result);
+      this.pending.delete(ev.data.id);
+    };
+    worker.onerror = (ev) => {
+      console.error("Tool language worker failed:", ev.message);
+      this.pending.forEach((resolve) => resolve(null));
+      this.pending.clear();
+      this.worker = null;
+    };
+    this.worker = worker;
+    return worker;
+  }
+}
+
+const client = new ToolLanguageClient();
+
+/* ---------- CodeMirror ---------- */
+
+async function completeTool(
+  context: CompletionContext
+): Promise<CompletionResult | null> {
+  const word = context.matchBefore(/[\w$]*/);
+  if (!word) return null;
+  const afterDot = context.state.sliceDoc(word.from - 1, word.from) === ".";
+  if (word.from === word.to && !afterDot && !context.explicit) return null;
+
+  const code = context.state.doc.toString();
+  const entries = await client.completions(code, context.pos);
+  if (!entries || context.aborted) return null;
+
+  return {
+    from: word.from,
+    options: entries.map((entry) => ({
+      label: entry.label,
+      type: COMPLETION_TYPES[entry.kind],
+      // TypeScript ranks locals before members before globals.
+      boost: -(parseInt(entry.sortText, 10) || 0),
+      info: async () => {
+        const details = await client.completionDetails(
+          code,
+          context.pos,
+          entry.label
+        );
+        return details ? renderInfo(details) : null;
+      },
+    })),
+    validFor: /^[\w$]*$/,
+  };
+}
+
+async function hoverTool(
+  view: EditorView,
+  pos: number
+): Promise<Tooltip | null> {
+  const info = await client.hover(view.state.doc.toString(), pos);
+  if (!info) return null;
+  return {
+    pos: info.from,
+    end: info.to,
+    above: true,
+    create: () => ({ dom: renderInfo(info) }),
+  };
+}
+
+async function lintTool(view: EditorView): Promise<Diagnostic[]> {
+  // Don't start the worker for code nobody has touched yet.
+  if (!client.isStarted() && !view.hasFocus) return [];
+  const diagnostics = await client.diagnostics(view.state.doc.toString());
+  return (diagnostics ?? []).map((d) => ({ ...d, source: "types" }));
+}
+
+function renderInfo(info: ToolHoverInfo): HTMLElement {
+  const dom = document.createElement("div");
+  dom.className = "cm-tool-info";
+  const signature = document.createElement("code");
+  signature.className = "cm-tool-info-signature";
+  signature.textContent = info.signature;
+  dom.appendChild(signature);
+  if (info.documentation) {
+    const docs = document.createElement("div");
+    docs.textContent = info.documentation;
+    dom.appendChild(docs);
+  }
+  return dom;
+}
+
+const infoTheme = EditorView.baseTheme({
+  ".cm-tool-info": {
+    maxWidth: "480px",
+    padding: "4px 6px",
+    whiteSpace: "pre-wrap",
+  },
+  ".cm-tool-info-signature": {
+    display: "block",
+    fontFamily: "var(--font-mono)",
+    marginBottom: "2px",
+  },
+});
+
+/**
+ * Completions, hover docs and type errors for tool code, checked against
+ * the tool API (see tool-api-types.ts).
+ */
+export function toolLanguage(): Extension {
+  return [
+    autocompletion({ override: [completeTool] }),
+    hoverTooltip(hoverTool),
+    linter(lintTool, {
+      needsRefresh: (update) =>
+        update.focusChanged && update.view.hasFocus && !client.isStarted(),
+    }),
+    infoTheme,
+  ];
+}
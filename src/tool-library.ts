@@ -0,0 +1,147 @@
+/*
+ * ToolLibrary – user-created tools persisted in localStorage.
+ *
+ * User tools live next to the built-in TOOL_TEMPLATES and use the same
+ * { name, description, code } shape. Their keys carry a "user:" prefix so they
+ * never collide with template keys.
+ */
+import type { UserTool } from "./types.js";
+
+const STORAGE_KEY = "canvascode:user-tools";
+export const USER_TOOL_PREFIX = "user:";
+
+export function isUserToolKey(key: string | null | undefined): boolean {
+  return !!key && key.startsWith(USER_TOOL_PREFIX);
+}
+
+export class ToolLibrary {
+  private tools: Map<string, UserTool> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    this.load();
+  }
+
+  /** All user tools in creation order. */
+  list(): UserTool[] {
+    return [...this.tools.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(key: string): UserTool | undefined {
+    return this.tools.get(key);
+  }
+
+  /** Store `code` as a new user tool and return its key. */
+  create(
+    name: string,
+    description: string,
+    code: string,
+    meta: { author?: string; version?: string } = {}
+  ): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("Tool name must not be empty");
+
+    const now = Date.now();
+    const key = this.makeKey(trimmed);
+    this.tools.set(key, {
+      key,
+      name: trimmed,
+      description: description.trim(),
+      code,
+      ...(meta.author ? { author: meta.author } : {}),
+      ...(meta.version ? { version: meta.version } : {}),
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.persist();
+    return key;
+  }
+
+  /** Overwrite the code of an existing user tool. */
+  updateCode(key: string, code: string): void {
+    const tool = this.require(key);
+    tool.code = code;
+    tool.updatedAt = Date.now();
+    this.persist();
+  }
+
+  rename(key: string, name: string, description?: string): void {
+    const tool = this.require(key);
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("Tool name must not be empty");
+    tool.name = trimmed;
+    if (description !== undefined) tool.description = description.trim();
+    tool.updatedAt = Date.now();
+    this.persist();
+  }
+
+  /** Copy a user tool and return the key of the copy. */
+  duplicate(key: string): string {
+    const tool = this.require(key);
+    return this.create(`${tool.name} copy`, tool.description, tool.code, {
+      author: tool.author,
+      version: tool.version,
+    });
+  }
+
+  /** Set the author recorded when the tool is exported. */
+  setAuthor(key: string, author: string): void {
+    const tool = this.require(key);
+    tool.author = author.trim();
+    this.persist();
+  }
+
+  remove(key: string): void {
+    if (this.tools.delete(key)) this.persist();
+  }
+
+  addListener(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeListener(listener: () => void): void {
+    this.listeners.delete(listener);
+  }
+
+  private require(key: string): UserTool {
+    const tool = this.tools.get(key);
+    if (!tool) throw new Error(`User tool "${key}" not found`);
+    return tool;
+  }
+
+  private makeKey(name: string): string {
+    const slug =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "tool";
+    let key = `${USER_TOOL_PREFIX}${slug}`;
+    for (let i = 2; this.tools.has(key); i++) {
+      key = `${USER_TOOL_PREFIX}${slug}-${i}`;
+    }
+    return key;
+  }
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const stored: UserTool[] = raw ? JSON.parse(raw) : [];
+      stored.forEach((tool) => {
+        if (tool && isUserToolKey(tool.key) && typeof tool.code === "string") {
+          this.tools.set(tool.key, tool);
+        }
+      });
+    } catch (err) {
+      console.warn("ToolLibrary: could not read stored tools", err);
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.list()));
+    } catch (err) {
+      console.error("ToolLibrary: could not store tools", err);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,155 @@
+/*
+ * Tool modules – tool code written as an ES module:
+ *
+ *   import { primaryColor } from "std/color";
+ *   export default { name: "My Tool", onPointerDown(e) { … } };
+ *
+ * compileTool runs tool code as a function body, so module code is rewritten
+ * into one, line for line to keep error lines matching the editor: imports
+ * become `const … = __toolImport("…")`, exports are collected on
+ * `__toolExports` and the default export is the tool. Code without import /
+ * export statements is left alone.
+ */
+import { Scanner } from "./watchdog.js";
+
+/** Names of the import function and exports object the rewrite uses. */
+export const MODULE_IMPORT = "__toolImport";
+export const MODULE_EXPORTS = "__toolExports";
+
+/** Module syntax the rewrite can't handle, with its line in the tool code. */
+export class ToolModuleError extends SyntaxError {
+  constructor(message: string, readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "ToolModuleError";
+  }
+}
+
+// import X from "m" | import { a, b as c } from "m" | import X, { a } from "m"
+// | import * as ns from "m" | import "m"
+const IMPORT_STATEMENT =
+  /^import\s*(?:([\w$]+)\s*,?\s*)?(?:\*\s*as\s+([\w$]+)\s*|\{([^}]*)\}\s*)?(?:from\s*)?(["'])([^"'\n]+)\4[ \t]*;?/;
+const EXPORT_DEFAULT = /^export\s+default\b\s*/;
+const EXPORT_DECLARATION =
+  /^export\s+(?:async\s+function\*?|function\*?|class|const|let|var)\s+([\w$]+)/;
+const EXPORT_LIST = /^export\s*\{([^}]*)\}/;
+
+/** True if the code has import or export statements. */
+export function isModuleCode(code: string): boolean {
+  return findModuleStatements(code).length > 0;
+}
+
+/** Rewrite module code into a function body; see the top of this file. */
+export function transformModule(code: string): string {
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const exported: Array<{ name: string; local: string }> = [];
+
+  for (const start of findModuleStatements(code)) {
+    const rest = code.slice(start);
+    const line = code.slice(0, start).split("\n").length;
+    let match: RegExpExecArray | null;
+
+    if (rest.startsWith("import")) {
+      match = IMPORT_STATEMENT.exec(rest);
+      if (!match) throw new ToolModuleError("Unsupported import", line);
+      const [text, defaultName, namespace, names, , specifier] = match;
+      edits.push({
+        start,
+        end: start + text.length,
+        text:
+          importCode(specifier, defaultName, namespace, names) +
+          keepNewlines(text),
+      });
+    } else if ((match = EXPORT_DEFAULT.exec(rest))) {
+      edits.push({
+        start,
+        end: start + match[0].length,
+        text: `${MODULE_EXPORTS}.default = ` + keepNewlines(match[0]),
+      });
+    } else if ((match = EXPORT_DECLARATION.exec(rest))) {
+      // Drop the keyword; the binding is exported at the end of the code.
+      edits.push({ start, end: start + "export".length, text: "" });
+      exported.push({ name: match[1], local: match[1] });
+    } else if ((match = EXPORT_LIST.exec(rest))) {
+      let end = start + match[0].length;
+      const after = code.slice(end).match(/^\s*(from\b)?[ \t]*;?/)!;
+      if (after[1]) {
+        throw new ToolModuleError(
+          'Re-exports ("export … from") are not supported',
+          line
+        );
+      }
+      end += after[0].length;
+      for (const entry of match[1].split(",")) {
+        const [local, name = local] = entry.trim().split(/\s+as\s+/);
+        if (local) exported.push({ name, local });
+      }
+      edits.push({ start, end, text: keepNewlines(code.slice(start, end)) });
+    } else {
+      throw new ToolModuleError("Unsupported export", line);
+    }
+  }
+
+  let result = code;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  if (exported.length > 0) {
+    result +=
+      "\n" +
+      exported
+        .map(({ name, local }) => `${MODULE_EXPORTS}.${name} = ${local};`)
+        .join(" ");
+  }
+  return result;
+}
+
+/**
+ * Start offsets of import / export statements. Only statements at the start
+ * of a line count; `import(…)` and `import.meta` are expressions.
+ */
+function findModuleStatements(code: string): number[] {
+  const scanner = new Scanner(code);
+  const starts: number[] = [];
+  while (!scanner.done()) {
+    const word = scanner.nextKeywordCandidate();
+    if (word === null) break;
+    if (word.text !== "import" && word.text !== "export") continue;
+
+    const start = word.end - word.text.length;
+    const lineStart = code.lastIndexOf("\n", start - 1) + 1;
+    if (code.slice(lineStart, start).trim() !== "") continue;
+    const next = code[scanner.skipTrivia(word.end)];
+    if (next === "(" || next === ".") continue;
+    starts.push(start);
+  }
+  return starts;
+}
+
+function importCode(
+  specifier: string,
+  defaultName: string | undefined,
+  namespace: string | undefined,
+  names: string | undefined
+): string {
+  const source = `${MODULE_IMPORT}(${JSON.stringify(specifier)})`;
+  if (namespace) {
+    return (
+      `const ${namespace} = ${source};` +
+      (defaultName ? ` const ${defaultName} = ${namespace}.default;` : "")
+    );
+  }
+  const bindings = (names ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => entry.replace(/\s+as\s+/, ": "));
+  if (defaultName) bindings.unshift(`default: ${defaultName}`);
+  return bindings.length > 0
+    ? `const { ${bindings.join(", ")} } = ${source};`
+    : `${source};`;
+}
+
+/** The line breaks of replaced text, so later lines keep their numbers. */
+function keepNewlines(text: string): string {
+  return "\n".repeat(text.split("\n").length - 1);
+}
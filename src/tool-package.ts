@@ -0,0 +1,186 @@
+/*
+ * Tool package – a single shareable file holding one tool's code and its
+ * metadata (name, description, author, version and the tool API it needs).
+ */
+import { TOOL_TEMPLATES } from "./tool-templates.js";
+import { TOOL_API_VERSION } from "./tool-api-types.js";
+import { downloadBlob, pickFile } from "./file-utils.js";
+import type { ToolTemplate } from "./types.js";
+
+export const TOOL_PACKAGE_FORMAT = "canvascode-tool";
+export const TOOL_PACKAGE_VERSION = 1;
+export const TOOL_PACKAGE_EXTENSION = ".cctool";
+
+export interface ToolPackage {
+  format: typeof TOOL_PACKAGE_FORMAT;
+  version: number;
+  tool: {
+    name: string;
+    description: string;
+    author: string;
+    /** Version of the tool itself, chosen by its author. */
+    version: string;
+    /** TOOL_API_VERSION the code was written against. */
+    api: number;
+    code: string;
+  };
+}
+
+/** Build a package for a tool; `code` may be an edited version of it. */
+export function createToolPackage(
+  tool: ToolTemplate & { author?: string; version?: string }
+): ToolPackage {
+  return {
+    format: TOOL_PACKAGE_FORMAT,
+    version: TOOL_PACKAGE_VERSION,
+    tool: {
+      name: tool.name,
+      description: tool.description,
+      author: tool.author ?? "",
+      version: tool.version || "1.0.0",
+      api: TOOL_API_VERSION,
+      code: tool.code,
+    },
+  };
+}
+
+/**
+ * Parse and validate the text of a tool package.
+ * Throws a descriptive error if the file is not a usable package.
+ */
+export function parseToolPackage(text: string): ToolPackage {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!data || data.format !== TOOL_PACKAGE_FORMAT) {
+    throw new Error("File is not a CanvasCode tool");
+  }
+  if (typeof data.version !== "number" || data.version > TOOL_PACKAGE_VERSION) {
+    throw new Error(
+      `Unsupported tool file version ${data.version} (expected ${TOOL_PACKAGE_VERSION} or lower)`
+    );
+  }
+  const tool = data.tool;
+  if (typeof tool?.code !== "string" || !tool.code.trim()) {
+    throw new Error("Tool file contains no code");
+  }
+  if (typeof tool.name !== "string" || !tool.name.trim()) {
+    throw new Error("Tool file has no tool name");
+  }
+  const api = typeof tool.api === "number" ? tool.api : 1;
+  if (api > TOOL_API_VERSION) {
+    throw new Error(
+      `"${tool.name}" needs tool API ${api}, but this version of CanvasCode provides ${TOOL_API_VERSION}`
+    );
+  }
+
+  return {
+    format: TOOL_PACKAGE_FORMAT,
+    version: data.version,
+    tool: {
+      name: tool.name.trim(),
+      description: typeof tool.description === "string" ? tool.description : "",
+      author: typeof tool.author === "string" ? tool.author : "",
+      version: typeof tool.version === "string" ? tool.version : "",
+      api,
+      code: tool.code,
+    },
+  };
+}
+
+/**
+ * Key of the built-in tool whose name or key matches `name` (ignoring case),
+ * or null. Imported tools must not pose as built-in ones.
+ */
+function findTemplateCollision(name: string): string | null {
+  const wanted = name.trim().toLowerCase();
+  const match = Object.entries(TOOL_TEMPLATES).find(
+    ([key, template]) =>
+      key.toLowerCase() === wanted || template.name.toLowerCase() === wanted
+  );
+  return match ? match[0] : null;
+}
+
+/**
+ * A `name: "…"` line of the tool object (after `export default` in module
+ * code). The ToolSystem registers tools under this name, not the package's.
+ */
+const DECLARED_NAME = /^(\s*name\s*:\s*)(['"`])((?:\\.|(?!\2)[^\\\n])*)\2/m;
+
+function findDeclaredName(code: string): RegExpExecArray | null {
+  const start = Math.max(code.search(/\bexport\s+default\b/), 0);
+  const match = DECLARED_NAME.exec(code.slice(start));
+  if (match) match.index += start;
+  return match;
+}
+
+/**
+ * Name the tool code declares for itself, or null if it isn't a plain
+ * string (e.g. computed).
+ */
+export function declaredToolName(code: string): string | null {
+  const match = findDeclaredName(code);
+  if (!match || (match[2] === "`" && match[3].includes("${"))) return null;
+  return match[3].replace(/\\(.)/g, "$1");
+}
+
+/** `code` with its declared tool name replaced by `name`. */
+export function renameToolCode(code: string, name: string): string {
+  const match = findDeclaredName(code);
+  if (!match) return code;
+  const [declaration, prefix, quote] = match;
+  const special =
+    quote === "`" ? /[\\`$]/g : quote === "'" ? /[\\']/g : /[\\"]/g;
+  const literal = quote + name.replace(special, "\\$&") + quote;
+  return (
+    code.slice(0, match.index) +
+    prefix +
+    literal +
+    code.slice(match.index + declaration.length)
+  );
+}
+
+/**
+ * The name a built-in tool already has among a package's tool name and the
+ * name its code declares, or null if neither collides.
+ */
+export function findPackageCollision(
+  name: string,
+  code: string
+): string | null {
+  if (findTemplateCollision(name) !== null) return name;
+  const declared = declaredToolName(code);
+  if (declared !== null && findTemplateCollision(declared) !== null) {
+    return declared;
+  }
+  return null;
+}
+
+/** Offer a tool package as a download named after the tool. */
+export function saveToolPackage(pkg: ToolPackage): void {
+  const slug =
+    pkg.tool.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "tool";
+  downloadBlob(
+    new Blob([JSON.stringify(pkg, null, 2)], { type: "application/json" }),
+    `${slug}${TOOL_PACKAGE_EXTENSION}`
+  );
+}
+
+/** Read a dropped or picked file as a tool package. */
+export async function readToolPackage(file: File): Promise<ToolPackage> {
+  return parseToolPackage(await file.text());
+}
+
+/** Let the user pick a tool file; resolves with null if dismissed. */
+export async function openToolPackage(): Promise<ToolPackage | null> {
+  const file = await pickFile(`${TOOL_PACKAGE_EXTENSION},application/json`);
+  if (!file) return null;
+  return readToolPackage(file);
+}
@@ -0,0 +1,117 @@
+/*
+ * Tool parameters – declarative settings a tool exposes on its `parameters`
+ * property. The ToolSystem keeps the current values in `tool.params` and the
+ * properties panel renders a control for each entry.
+ */
+
+interface BaseParameter<T> {
+  /** Label shown in the properties panel (defaults to the key). */
+  label?: string;
+  default: T;
+}
+
+export interface NumberParameter extends BaseParameter<number> {
+  type: "number";
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface BooleanParameter extends BaseParameter<boolean> {
+  type: "boolean";
+}
+
+export interface EnumParameter extends BaseParameter<string> {
+  type: "enum";
+  options: string[];
+}
+
+export interface ColorParameter extends BaseParameter<string> {
+  type: "color";
+}
+
+export type ToolParameter =
+  | NumberParameter
+  | BooleanParameter
+  | EnumParameter
+  | ColorParameter;
+
+export interface ToolParameterSchema {
+  [key: string]: ToolParameter;
+}
+
+export type ToolParamValues = { [key: string]: unknown };
+
+/**
+ * Coerce `value` into something valid for `param`, or return undefined if it
+ * can't be used (wrong type, unknown enum option, …).
+ */
+export function coerceParam(param: ToolParameter, value: unknown): unknown {
+  switch (param.type) {
+    case "number": {
+      const num = typeof value === "string" ? parseFloat(value) : value;
+      if (typeof num !== "number" || !Number.isFinite(num)) return undefined;
+      let result = num;
+      if (param.min !== undefined) result = Math.max(param.min, result);
+      if (param.max !== undefined) result = Math.min(param.max, result);
+      return result;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? value : undefined;
+    case "enum":
+      return typeof value === "string" && param.options.includes(value)
+        ? value
+        : undefined;
+    case "color":
+      return typeof value === "string" && value !== "" ? value : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Drop malformed entries from a schema declared by tool code so the rest of
+ * the app can rely on its shape.
+ */
+export function sanitizeSchema(schema: unknown): ToolParameterSchema {
+  const result: ToolParameterSchema = {};
+  if (!schema || typeof schema !== "object") return result;
+
+  for (const [key, raw] of Object.entries(schema as object)) {
+    const param = raw as ToolParameter;
+    if (!param || typeof param !== "object") continue;
+    if (!["number", "boolean", "enum", "color"].includes(param.type)) {
+      console.warn(`Tool parameter "${key}" has unknown type`, param);
+      continue;
+    }
+    if (param.type === "enum" && !Array.isArray(param.options)) {
+      console.warn(`Tool parameter "${key}" needs an options array`);
+      continue;
+    }
+    if (coerceParam(param, param.default) === undefined) {
+      console.warn(`Tool parameter "${key}" has an invalid default`);
+      continue;
+    }
+    result[key] = param;
+  }
+  return result;
+}
+
+/**
+ * Build the value bag for a schema, keeping still-valid values from a
+ * previous version of the tool (e.g. after pressing Apply).
+ */
+export function initParamValues(
+  schema: ToolParameterSchema,
+  previous?: ToolParamValues
+): ToolParamValues {
+  const values: ToolParamValues = {};
+  for (const [key, param] of Object.entries(schema)) {
+    const kept =
+      previous && key in previous
+        ? coerceParam(param, previous[key])
+        : undefined;
+    values[key] = kept !== undefined ? kept : coerceParam(param, param.default);
+  }
+  return values;
+}
@@ -0,0 +1,60 @@
+/*
+ * std/color – the colours picked in the color panel, with the app's defaults
+ * when none are set, and small colour operations.
+ */
+import paper from "paper";
+
+const DEFAULT_PRIMARY = "#007acc";
+const DEFAULT_SECONDARY = "#ff6b6b";
+
+/** The primary colour as a CSS string. */
+export function primaryColor(): string {
+  return window.globalColors?.primary || DEFAULT_PRIMARY;
+}
+
+/** The secondary colour as a CSS string. */
+export function secondaryColor(): string {
+  return window.globalColors?.secondary || DEFAULT_SECONDARY;
+}
+
+/** A Paper.js colour from a CSS string or another colour. */
+export function toColor(color: string | paper.Color): paper.Color {
+  return color instanceof paper.Color ? color.clone() : new paper.Color(color);
+}
+
+export function withAlpha(
+  color: string | paper.Color,
+  alpha: number
+): paper.Color {
+  const result = toColor(color);
+  result.alpha = alpha;
+  return result;
+}
+
+/** Blend from `a` (t = 0) to `b` (t = 1) in RGB. */
+export function mixColors(
+  a: string | paper.Color,
+  b: string | paper.Color,
+  t: number
+): paper.Color {
+  const from = toColor(a);
+  const to = toColor(b);
+  from.type = "rgb";
+  to.type = "rgb";
+  return new paper.Color(
+    from.red + (to.red - from.red) * t,
+    from.green + (to.green - from.green) * t,
+    from.blue + (to.blue - from.blue) * t,
+    from.alpha + (to.alpha - from.alpha) * t
+  );
+}
+
+/** Lighter (amount > 0) or darker (amount < 0) version of a colour. */
+export function adjustBrightness(
+  color: string | paper.Color,
+  amount: number
+): paper.Color {
+  const result = toColor(color);
+  result.brightness = Math.min(1, Math.max(0, result.brightness + amount));
+  return result;
+}
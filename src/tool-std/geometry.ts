@@ -0,0 +1,81 @@
+/*
+ * std/geometry – number and point helpers for tool code.
+ */
+import paper from "paper";
+
+/** Limit `value` to the range [min, max]. */
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Blend from `a` (t = 0) to `b` (t = 1). */
+export function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/** Point between `a` (t = 0) and `b` (t = 1). */
+export function lerpPoint(
+  a: paper.Point,
+  b: paper.Point,
+  t: number
+): paper.Point {
+  return a.add(b.subtract(a).multiply(t));
+}
+
+export function distance(a: paper.Point, b: paper.Point): number {
+  return a.getDistance(b);
+}
+
+export function midpoint(a: paper.Point, b: paper.Point): paper.Point {
+  return lerpPoint(a, b, 0.5);
+}
+
+/** Direction from `from` to `to` in degrees, clockwise from the +x axis. */
+export function angleBetween(from: paper.Point, to: paper.Point): number {
+  return to.subtract(from).angle;
+}
+
+/** Point at `radius` from `center` in the direction `angle` (degrees). */
+export function pointOnCircle(
+  center: paper.Point,
+  radius: number,
+  angle: number
+): paper.Point {
+  return center.add(new paper.Point({ length: radius, angle }));
+}
+
+/** Corners of a regular polygon; the first one points in `rotation`. */
+export function polygonPoints(
+  center: paper.Point,
+  radius: number,
+  sides: number,
+  rotation: number = -90
+): paper.Point[] {
+  const count = Math.max(3, Math.round(sides));
+  return Array.from({ length: count }, (_, i) =>
+    pointOnCircle(center, radius, rotation + (360 * i) / count)
+  );
+}
+
+/**
+ * Rectangle spanned by a drag from `start` to `end`, as rectangle and
+ * ellipse tools need it. `square` keeps the sides equal (e.g. while Shift is
+ * held), `fromCenter` grows it around `start` (e.g. while Alt is held).
+ */
+export function rectFromDrag(
+  start: paper.Point,
+  end: paper.Point,
+  options: { square?: boolean; fromCenter?: boolean } = {}
+): paper.Rectangle {
+  let delta = end.subtract(start);
+  if (options.square) {
+    const size = Math.max(Math.abs(delta.x), Math.abs(delta.y));
+    delta = new paper.Point(
+      Math.sign(delta.x || 1) * size,
+      Math.sign(delta.y || 1) * size
+    );
+  }
+  return options.fromCenter
+    ? new paper.Rectangle(start.subtract(delta), start.add(delta))
+    : new paper.Rectangle(start, start.add(delta));
+}
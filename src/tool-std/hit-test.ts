@@ -0,0 +1,96 @@
+/*
+ * std/hit-test – find the artwork under a point or inside an area. Items on
+ * locked layers (like the page background) are never hit.
+ */
+import paper from "paper";
+
+export interface HitOptions {
+  /** Distance in project units that still counts as a hit. */
+  tolerance?: number;
+  /** Test fills (default true). */
+  fill?: boolean;
+  /** Test strokes (default true). */
+  stroke?: boolean;
+  /** Test segment points (default false). */
+  segments?: boolean;
+  /** Only accept items this returns true for. */
+  filter?: (item: paper.Item) => boolean;
+}
+
+/** Topmost hit at `point`, or null. */
+export function hitAt(
+  point: paper.Point,
+  options: HitOptions = {}
+): paper.HitResult | null {
+  return project().hitTest(point, hitTestOptions(options)) ?? null;
+}
+
+/** Topmost item at `point`, or null. */
+export function itemAt(
+  point: paper.Point,
+  options: HitOptions = {}
+): paper.Item | null {
+  return hitAt(point, options)?.item ?? null;
+}
+
+/** All items at `point`, topmost first. */
+export function itemsAt(
+  point: paper.Point,
+  options: HitOptions = {}
+): paper.Item[] {
+  const hits = project().hitTestAll(point, hitTestOptions(options));
+  return [...new Set(hits.map((hit) => hit.item))];
+}
+
+/** Items that lie completely inside `rect` (e.g. for marquee selection). */
+export function itemsInRect(
+  rect: paper.Rectangle,
+  filter?: (item: paper.Item) => boolean
+): paper.Item[] {
+  return project().getItems({
+    inside: rect,
+    match: (item: paper.Item) =>
+      !(item instanceof paper.Layer) &&
+      !isLocked(item) &&
+      (!filter || filter(item)),
+  });
+}
+
+/** Segment closest to `point` within `maxDistance`, or null. */
+export function nearestSegment(
+  point: paper.Point,
+  maxDistance: number = 8
+): paper.Segment | null {
+  const hit = project().hitTest(point, {
+    segments: true,
+    tolerance: maxDistance,
+    match: (result: paper.HitResult) => !isLocked(result.item),
+  });
+  return hit?.segment ?? null;
+}
+
+/** True if the item or one of its parents (e.g. its layer) is locked. */
+export function isLocked(item: paper.Item): boolean {
+  let current: paper.Item | null = item;
+  for (; current; current = current.parent) {
+    if (current.locked) return true;
+  }
+  return false;
+}
+
+/** The project tools draw into (window.project is swapped by the harness). */
+function project(): paper.Project {
+  return window.project;
+}
+
+function hitTestOptions(options: HitOptions): object {
+  return {
+    fill: options.fill ?? true,
+    stroke: options.stroke ?? true,
+    segments: options.segments ?? false,
+    tolerance: options.tolerance ?? 4,
+    match: (result: paper.HitResult) =>
+      !isLocked(result.item) &&
+      (!options.filter || options.filter(result.item)),
+  };
+}
@@ -0,0 +1,13 @@
+/*
+ * Tool standard library – helpers tool code can import as ES modules:
+ *
+ *   import { snapToGrid } from "std/snap";
+ *   import { createRandom, primaryColor } from "std";
+ *
+ * "std" holds everything; "std/<module>" one module. See tool-modules.ts.
+ */
+export * from "./geometry.js";
+export * from "./hit-test.js";
+export * from "./snap.js";
+export * from "./color.js";
+export * from "./random.js";
@@ -0,0 +1,58 @@
+/*
+ * std/random – seeded random numbers, so a tool can draw the same "random"
+ * texture again (e.g. for every replay of a recording).
+ */
+
+export interface Random {
+  /** Next number in [0, 1). */
+  next(): number;
+  /** Number in [min, max). */
+  range(min: number, max: number): number;
+  /** Whole number in [min, max]. */
+  int(min: number, max: number): number;
+  /** True with the given probability. */
+  chance(probability: number): boolean;
+  /** Random element of a non-empty array. */
+  pick<T>(items: readonly T[]): T;
+  /** Normally distributed number. */
+  gaussian(mean?: number, deviation?: number): number;
+}
+
+/**
+ * Random generator (mulberry32) that yields the same sequence for the same
+ * seed. Strings are hashed, so a tool name can serve as the seed.
+ */
+export function createRandom(seed: number | string = Date.now()): Random {
+  let state = (typeof seed === "string" ? hashSeed(seed) : seed) >>> 0;
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    range: (min, max) => min + (max - min) * next(),
+    int: (min, max) => Math.floor(min + (max - min + 1) * next()),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    gaussian: (mean = 0, deviation = 1) => {
+      // Box–Muller; 1 - next() avoids log(0).
+      const u = 1 - next();
+      const v = next();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      return mean + deviation * z;
+    },
+  };
+}
+
+/** 32-bit hash of a string (FNV-1a), for use as a seed. */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
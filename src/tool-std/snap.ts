@@ -0,0 +1,61 @@
+/*
+ * std/snap – snapping of points to a grid, to angle steps and to nearby
+ * points.
+ */
+import paper from "paper";
+
+/** Nearest grid point; `origin` shifts the grid. */
+export function snapToGrid(
+  point: paper.Point,
+  size: number,
+  origin: paper.Point = new paper.Point(0, 0)
+): paper.Point {
+  if (size <= 0) return point.clone();
+  return point.subtract(origin).divide(size).round().multiply(size).add(origin);
+}
+
+/**
+ * `to`, moved so the direction from `from` is a multiple of `step` degrees
+ * (e.g. 45 for Shift-constrained lines). The distance is kept.
+ */
+export function snapAngle(
+  from: paper.Point,
+  to: paper.Point,
+  step: number = 45
+): paper.Point {
+  const vector = to.subtract(from);
+  if (vector.length === 0 || step <= 0) return to.clone();
+  const angle = Math.round(vector.angle / step) * step;
+  return from.add(new paper.Point({ length: vector.length, angle }));
+}
+
+/** The candidate closest to `point` within `radius`, or `point` itself. */
+export function snapToPoints(
+  point: paper.Point,
+  candidates: paper.Point[],
+  radius: number = 8
+): paper.Point {
+  let best: paper.Point | null = null;
+  let bestDistance = radius;
+  for (const candidate of candidates) {
+    const d = point.getDistance(candidate);
+    if (d <= bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best ? best.clone() : point.clone();
+}
+
+/** Segment points of the paths in `items`, for use with snapToPoints. */
+export function segmentPoints(items: paper.Item[]): paper.Point[] {
+  const points: paper.Point[] = [];
+  for (const item of items) {
+    if (item instanceof paper.Path) {
+      item.segments.forEach((segment) => points.push(segment.point));
+    } else if (item.children) {
+      points.push(...segmentPoints(item.children));
+    }
+  }
+  return points;
+}
@@ -1,6 +1,10 @@
 /*
  * In-house ToolSystem – registers custom tools and dispatches input events.
  */
+import { Watchdog, WatchdogError } from "./watchdog.js";
+import { ToolConsole } from "./tool-console.js";
+import { sanitizeSchema, initParamValues, coerceParam } from "./tool-params.js";
+import type { ToolParameterSchema, ToolParamValues } from "./tool-params.js";
 
 export interface PointerData {
   point: any; // Paper.Point runtime instance; using any to avoid type conflicts
@@ -10,6 +14,24 @@ export interface PointerData {
   pointerType: "mouse" | "pen" | "touch";
   tiltX: number;
   tiltY: number;
+  /** Pen angle to the surface in radians: 0 = flat, π/2 = upright. */
+  altitude: number;
+  /** Direction the pen leans in radians, clockwise from the +x axis. */
+  azimuth: number;
+  /**
+   * Device values before the per-device profile was applied. `pressure`,
+   * `tiltX` and `tiltY` above are the mapped values.
+   */
+  raw: { pressure: number; tiltX: number; tiltY: number };
+  /** Time the sample was taken, on the `performance.now()` clock. */
+  timeStamp: number;
+  /**
+   * Samples the browser predicts the pointer will reach next. Only set on the
+   * last sample of a pointermove; use it to draw a low-latency preview that
+   * is replaced on the next move. Predicted samples never enter the session
+   * history.
+   */
+  predicted?: PointerData[];
   native: PointerEvent;
 }
 
@@ -23,21 +45,85 @@ export interface KeyData {
   native: KeyboardEvent;
 }
 
+export interface WheelData {
+  /** Paper.Point under the cursor. */
+  point: any;
+  /** Scroll distance in pixels (line / page deltas are converted). */
+  deltaX: number;
+  deltaY: number;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+  meta: boolean;
+  native: WheelEvent;
+}
+
+export type PointerEventType =
+  | "pointerdown"
+  | "pointermove"
+  | "pointerup"
+  | "pointercancel"
+  | "pointerenter"
+  | "pointerleave";
+
+/**
+ * A tool: a name plus the hooks the ToolSystem calls. Hooks may be async;
+ * while a returned promise is pending, further input for the tool is held
+ * back (see ToolSystem.deliver).
+ */
 export interface Tool {
   name: string;
   onPointerDown?(e: PointerData): void;
+  /** Pointer moved while pressed (dragging). */
   onPointerMove?(e: PointerData): void;
-  onPointerUp?(e: PointerData): void;
+  onPointerUp?(e: PointerData): void | Promise<void>;
+  /** Pointer moved without being pressed, e.g. to draw a brush preview. */
+  onPointerHover?(e: PointerData): void;
+  onPointerEnter?(e: PointerData): void;
+  onPointerLeave?(e: PointerData): void;
+  /**
+   * The stroke was cancelled (by the browser, or because its pointer was
+   * taken over by a pan / pinch). Whatever the stroke drew is rolled back.
+   * Tools without onCancel get onPointerUp instead so they still finish.
+   */
+  onCancel?(e: PointerData): void;
+  /**
+   * Mouse wheel / trackpad scroll over the canvas. Return true to consume
+   * it; otherwise the view zooms as usual. Ctrl / Cmd + wheel always zooms.
+   */
+  onWheel?(e: WheelData): boolean | void;
   onKeyDown?(e: KeyData): void;
   onKeyUp?(e: KeyData): void;
   onActivate?(): void;
   onDeactivate?(): void;
+  /**
+   * Called instead of onDeactivate when another tool is only activated for a
+   * moment (spring-loaded, e.g. while a key is held). The tool stays
+   * registered with its state and gets onResume when the key is released.
+   */
+  onSuspend?(): void;
+  onResume?(): void;
   /**
    * Optional hook that will be invoked when the global primary / secondary
    * colours change. Tools that cache colour values can update their state here
    * instead of being re-compiled.
    */
   onColorChange?(colors: { primary: string; secondary: string }): void;
+  /**
+   * Optional parameter schema. Each entry gets a control in the properties
+   * panel; current values are available as `this.params[key]`.
+   */
+  parameters?: ToolParameterSchema;
+  /** Current parameter values, filled in by the ToolSystem on register. */
+  params?: ToolParamValues;
+  /** Called after the user changed a parameter in the properties panel. */
+  onParamChange?(key: string, value: unknown): void;
+  /**
+   * Called after the tool's code was hot-reloaded. `this` is the existing tool
+   * object with its state intact; `prevState` is a shallow copy of that state
+   * taken before the new handlers were swapped in.
+   */
+  onHotReload?(prevState: { [key: string]: unknown }): void;
   /**
    * Arbitrary state bag for the tool implementation.
    * The ToolSystem will not touch this.
@@ -45,12 +131,102 @@ export interface Tool {
   [key: string]: unknown;
 }
 
+/** Details about an error thrown from a tool hook. */
+export interface ToolErrorInfo {
+  toolName: string;
+  /** Name of the hook that threw, e.g. "onPointerMove". */
+  handler: string;
+  error: unknown;
+}
+
+/** Why a tool was taken out of service; see ToolSystem.quarantine(). */
+export interface QuarantineInfo {
+  toolName: string;
+  /** Hook whose error used up the budget. */
+  handler: string;
+  /** The last error. */
+  error: unknown;
+  /** Errors counted towards the budget (1 for a watchdog stop). */
+  errorCount: number;
+}
+
+/**
+ * A tool whose hooks throw this many times within ERROR_WINDOW_MS is
+ * quarantined, so a broken onPointerMove doesn't throw on every move.
+ */
+const ERROR_BUDGET = 5;
+const ERROR_WINDOW_MS = 2000;
+
+/** Hooks that handle input; a clean run of one proves a tool works. */
+const INPUT_HOOKS = new Set([
+  "onPointerDown",
+  "onPointerMove",
+  "onPointerUp",
+  "onPointerHover",
+  "onPointerEnter",
+  "onPointerLeave",
+  "onCancel",
+  "onWheel",
+  "onKeyDown",
+  "onKeyUp",
+]);
+
+/**
+ * An input hook call, or a step of a stroke's undo group, held back while
+ * the tool's async work is pending.
+ */
+interface QueuedStep {
+  /** Hook to call; unset for undo group steps. */
+  handler?: string;
+  run: () => unknown;
+  /** Queued calls with the same key replace each other (latest wins). */
+  mergeKey?: string;
+}
+
+/** Async hooks of one tool still running, and the input waiting for them. */
+interface PendingWork {
+  count: number;
+  queue: QueuedStep[];
+  /** Deadlines of the running hooks' promises. */
+  timers: Set<ReturnType<typeof setTimeout>>;
+}
+
 /**
  * Simple registry / dispatcher holding the currently active tool.
  */
 export class ToolSystem {
   private tools: Map<string, Tool> = new Map();
   private activeTool: Tool | null = null;
+  private errorListeners: Set<(info: ToolErrorInfo) => void> = new Set();
+  /** Parameter values by tool name, kept across re-registration. */
+  private paramMemory: Map<string, ToolParamValues> = new Map();
+  /** Tool waiting to come back after a spring-loaded activation. */
+  private suspendedTool: Tool | null = null;
+  /** Set when the spring was released mid-stroke; restore after pointerup. */
+  private restorePending = false;
+  /** Pointers currently down on the active tool. */
+  private activePointers: Set<number> = new Set();
+  /** Recent error times by tool name, for the error budget. */
+  private errorTimes: Map<string, number[]> = new Map();
+  private quarantined: Map<string, QuarantineInfo> = new Map();
+  private quarantineListeners: Set<(info: QuarantineInfo) => void> = new Set();
+  /** Tool objects that handled input without throwing at least once. */
+  private provenTools: WeakSet<Tool> = new WeakSet();
+  /** Tools with async hooks in flight. */
+  private pending: Map<Tool, PendingWork> = new Map();
+  private busyListeners: Set<(toolName: string, busy: boolean) => void> =
+    new Set();
+  private activeToolListeners: Set<(tool: Tool | null) => void> = new Set();
+  private changeListeners: Set<() => void> = new Set();
+
+  /**
+   * Guards every hook call. PaperManager injects its guard into compiled tool
+   * code so loops in the tool can be interrupted.
+   */
+  watchdog = new Watchdog();
+
+  /** Logs and hook errors of tool code, shown in the console panel. */
+  readonly toolConsole = new ToolConsole();
 
   /**
    * InputManager installs the session manager here so tools can query it.
@@ -58,12 +234,93 @@ export class ToolSystem {
    */
   sessionManager?: import("./pointer-session.js").PointerSessionManager;
 
+  /**
+   * Document history installed by main.ts. Tools can call
+   * `toolSystem.history.beginGroup()` / `endGroup()` (or `transaction(fn)`)
+   * to merge several edits into a single undo step.
+   */
+  history?: import("./history-manager.js").HistoryManager;
+
   /** Register or overwrite a tool by name. */
   register(tool: Tool): void {
     if (!tool || typeof tool.name !== "string" || tool.name === "") {
       throw new Error("Tool must have a non-empty name property");
     }
+    tool.parameters = sanitizeSchema(tool.parameters);
+    tool.params = initParamValues(
+      tool.parameters,
+      this.paramMemory.get(tool.name)
+    );
+    this.paramMemory.set(tool.name, tool.params);
+    const prev = this.tools.get(tool.name);
+    if (prev && prev !== tool) this.abandon(prev);
     this.tools.set(tool.name, tool);
+    // New code gets a fresh error budget.
+    this.quarantined.delete(tool.name);
+    this.errorTimes.delete(tool.name);
+  }
+
+  /**
+   * Hot-reload the active tool: copy the handlers of `next` onto the active
+   * tool object instead of replacing it, so its state bag (overlays, caches,
+   * in-progress strokes) survives. Only works if `next` has the same name as
+   * the active tool; returns false otherwise so callers can fall back to
+   * register() + activate().
+   */
+  hotSwap(next: Tool): boolean {
+    const tool = this.activeTool;
+    if (!tool || !next || tool.name !== next.name) return false;
+
+    const prevState: { [key: string]: unknown } = {};
+    for (const [key, value] of Object.entries(tool)) {
+      if (typeof value !== "function") prevState[key] = value;
+    }
+
+    // Handlers that no longer exist in the new code must not linger.
+    for (const [key, value] of Object.entries(tool)) {
+      if (typeof value === "function" && typeof next[key] !== "function") {
+        delete tool[key];
+      }
+    }
+
+    for (const [key, value] of Object.entries(next)) {
+      if (key === "params") continue;
+      // Functions and the schema are code; other fields are state and are
+      // only taken from the new code if the tool doesn't have them yet.
+      if (
+        typeof value === "function" ||
+        key === "parameters" ||
+        !(key in tool)
+      ) {
+        tool[key] = value;
+      }
+    }
+
+    tool.parameters = sanitizeSchema(tool.parameters);
+    tool.params = initParamValues(tool.parameters, tool.params);
+    this.paramMemory.set(tool.name, tool.params);
+    this.provenTools.delete(tool);
+    this.errorTimes.delete(tool.name);
+
+    this.invoke(tool, "onHotReload", () => tool.onHotReload?.(prevState));
+    return true;
+  }
+
+  /**
+   * Change a parameter of a registered tool. The value is validated against
+   * the tool's schema and delivered live through `onParamChange`.
+   */
+  setParam(toolName: string, key: string, value: unknown): void {
+    const tool = this.tools.get(toolName);
+    const param = tool?.parameters?.[key];
+    if (!tool || !param || !tool.params) return;
+
+    const coerced = coerceParam(param, value);
+    if (coerced === undefined) return;
+    tool.params[key] = coerced;
+    this.invoke(tool, "onParamChange", () =>
+      tool.onParamChange?.(key, coerced)
+    );
   }
 
   /** Activate a previously registered tool by its name. */
@@ -73,23 +330,178 @@ export class ToolSystem {
       console.warn(`ToolSystem: Cannot activate unknown tool \"${name}\"`);
       return;
     }
-    if (this.activeTool && this.activeTool.onDeactivate) {
-      try {
-        this.activeTool.onDeactivate();
-      } catch (err) {
-        console.error("Tool onDeactivate error", err);
-      }
+    if (this.activeTool) {
+      const prev = this.activeTool;
+      this.invoke(prev, "onDeactivate", () => prev.onDeactivate?.());
+    }
+    // A permanent switch ends any spring-loaded activation for good.
+    const suspended = this.suspendedTool;
+    this.suspendedTool = null;
+    this.restorePending = false;
+    this.setActiveTool(next);
+    if (suspended === next) {
+      this.invoke(next, "onResume", () => next.onResume?.());
+      return;
+    }
+    if (suspended) {
+      this.invoke(suspended, "onDeactivate", () => suspended.onDeactivate?.());
+    }
+    this.invoke(next, "onActivate", () => next.onActivate?.());
+  }
+
+  /**
+   * Activate a registered tool only temporarily (spring-loaded). The current
+   * tool is suspended – it receives onSuspend instead of onDeactivate and
+   * keeps its state – until restoreSpringLoaded() brings it back. Returns
+   * false if nothing was switched: unknown tool, already active, another
+   * spring-loaded tool is active, or a stroke is in progress.
+   */
+  springLoad(name: string): boolean {
+    const next = this.tools.get(name);
+    const prev = this.activeTool;
+    if (!next || !prev || next === prev || this.suspendedTool) return false;
+    if (this.activePointers.size > 0) return false;
+
+    this.invoke(prev, "onSuspend", () => prev.onSuspend?.());
+    this.suspendedTool = prev;
+    this.setActiveTool(next);
+    this.invoke(next, "onActivate", () => next.onActivate?.());
+    return true;
+  }
+
+  /**
+   * End a spring-loaded activation and resume the suspended tool. If a
+   * pointer is still down the switch waits for its pointerup, so the
+   * temporary tool can finish its stroke.
+   */
+  restoreSpringLoaded(): void {
+    const prev = this.suspendedTool;
+    if (!prev) return;
+    if (this.activePointers.size > 0) {
+      this.restorePending = true;
+      return;
     }
-    this.activeTool = next;
-    if (next.onActivate) {
-      try {
-        next.onActivate();
-      } catch (err) {
-        console.error("Tool onActivate error", err);
+
+    const temp = this.activeTool;
+    this.suspendedTool = null;
+    this.restorePending = false;
+    if (temp) this.invoke(temp, "onDeactivate", () => temp.onDeactivate?.());
+    this.setActiveTool(prev);
+    this.invoke(prev, "onResume", () => prev.onResume?.());
+  }
+
+  /** True while a tool is active only temporarily. */
+  isSpringLoaded(): boolean {
+    return this.suspendedTool !== null;
+  }
+
+  /**
+   * Deactivate and unregister a tool that must not run any more (e.g. after
+   * the watchdog stopped it). Its onDeactivate hook still gets a chance to
+   * clean up, under the watchdog as well.
+   */
+  disable(name: string): void {
+    const tool = this.tools.get(name);
+    if (!tool) return;
+    this.tools.delete(name);
+    this.abandon(tool);
+    if (this.suspendedTool === tool) {
+      this.suspendedTool = null;
+      this.restorePending = false;
+      this.invoke(tool, "onDeactivate", () => tool.onDeactivate?.());
+    }
+    if (this.activeTool === tool) {
+      // Strokes cut short keep what they drew so far as one undo step.
+      this.activePointers.forEach(() => this.deliverGroupStep(tool, "end"));
+      this.setActiveTool(null);
+      this.activePointers.clear();
+      this.invoke(tool, "onDeactivate", () => tool.onDeactivate?.());
+      // A broken spring-loaded tool hands control back right away.
+      const prev = this.suspendedTool;
+      if (prev) {
+        this.suspendedTool = null;
+        this.restorePending = false;
+        this.setActiveTool(prev);
+        this.invoke(prev, "onResume", () => prev.onResume?.());
       }
     }
   }
 
+  /**
+   * Take a tool out of service: it is disabled and stays listed as
+   * quarantined until new code for it is registered.
+   */
+  quarantine(info: QuarantineInfo): void {
+    if (this.quarantined.has(info.toolName)) return;
+    this.quarantined.set(info.toolName, info);
+    this.errorTimes.delete(info.toolName);
+    this.disable(info.toolName);
+    this.quarantineListeners.forEach((listener) => listener(info));
+  }
+
+  getQuarantine(name: string): QuarantineInfo | null {
+    return this.quarantined.get(name) ?? null;
+  }
+
+  /** True if the registered tool handled input without throwing. */
+  hasWorked(name: string): boolean {
+    const tool = this.tools.get(name);
+    return !!tool && this.provenTools.has(tool);
+  }
+
+  /** Subscribe to tools being quarantined. */
+  addQuarantineListener(listener: (info: QuarantineInfo) => void): void {
+    this.quarantineListeners.add(listener);
+  }
+
+  removeQuarantineListener(listener: (info: QuarantineInfo) => void): void {
+    this.quarantineListeners.delete(listener);
+  }
+
+  /** True while an async hook of the named tool is still running. */
+  isBusy(name: string): boolean {
+    for (const tool of this.pending.keys()) {
+      if (tool.name === name) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Subscribe to tool input that may have changed the project: a stroke
+   * started or ended. Both are announced when the tool actually handled the
+   * event, which for input queued behind async work is later than dispatch.
+   */
+  addChangeListener(listener: () => void): void {
+    this.changeListeners.add(listener);
+  }
+
+  removeChangeListener(listener: () => void): void {
+    this.changeListeners.delete(listener);
+  }
+
+  /** Subscribe to tools starting / finishing async work. */
+  addBusyListener(listener: (toolName: string, busy: boolean) => void): void {
+    this.busyListeners.add(listener);
+  }
+
+  removeBusyListener(
+    listener: (toolName: string, busy: boolean) => void
+  ): void {
+    this.busyListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to the active tool changing, including spring-loaded switches
+   * that don't change the tool shown in the editor.
+   */
+  addActiveToolListener(listener: (tool: Tool | null) => void): void {
+    this.activeToolListeners.add(listener);
+  }
+
+  removeActiveToolListener(listener: (tool: Tool | null) => void): void {
+    this.activeToolListeners.delete(listener);
+  }
+
   getActiveTool(): Tool | null {
     return this.activeTool;
   }
@@ -98,31 +510,299 @@ export class ToolSystem {
     return this.activeTool?.name ?? null;
   }
 
+  /** Subscribe to errors thrown by tool handlers. */
+  addErrorListener(listener: (info: ToolErrorInfo) => void): void {
+    this.errorListeners.add(listener);
+  }
+
+  removeErrorListener(listener: (info: ToolErrorInfo) => void): void {
+    this.errorListeners.delete(listener);
+  }
+
   /* Dispatch helpers */
-  dispatchPointer(
-    type: "pointerdown" | "pointermove" | "pointerup",
-    e: PointerData
+  dispatchPointer(type: PointerEventType, e: PointerData): void {
+    const tool = this.activeTool;
+    if (!tool) return;
+    switch (type) {
+      case "pointerdown":
+        this.activePointers.add(e.pointerId);
+        this.deliverGroupStep(tool, "begin");
+        this.deliver(tool, "onPointerDown", () => tool.onPointerDown?.(e));
+        this.deliverStep(tool, () => this.notifyChanged());
+        break;
+      case "pointermove":
+        if (this.activePointers.has(e.pointerId)) {
+          // Every sample of a stroke matters, so drags are never merged.
+          this.deliver(tool, "onPointerMove", () => tool.onPointerMove?.(e));
+        } else {
+          this.deliver(
+            tool,
+            "onPointerHover",
+            () => tool.onPointerHover?.(e),
+            `hover:${e.pointerId}`
+          );
+        }
+        break;
+      case "pointerup":
+      case "pointercancel": {
+        const wasDown = this.activePointers.delete(e.pointerId);
+        if (type === "pointercancel" && tool.onCancel) {
+          this.deliver(tool, "onCancel", () => tool.onCancel?.(e));
+        } else {
+          this.deliver(tool, "onPointerUp", () => tool.onPointerUp?.(e));
+        }
+        if (wasDown) {
+          this.deliverGroupStep(
+            tool,
+            type === "pointercancel" ? "abort" : "end"
+          );
+        }
+        if (this.restorePending && this.activePointers.size === 0) {
+          this.restoreSpringLoaded();
+        }
+        break;
+      }
+      case "pointerenter":
+        this.deliver(tool, "onPointerEnter", () => tool.onPointerEnter?.(e));
+        break;
+      case "pointerleave":
+        this.deliver(tool, "onPointerLeave", () => tool.onPointerLeave?.(e));
+        break;
+    }
+  }
+
+  /**
+   * Offer a wheel event to the active tool; true if the tool consumed it.
+   * A busy tool can't answer in time, so the view handles the wheel.
+   */
+  dispatchWheel(e: WheelData): boolean {
+    const tool = this.activeTool;
+    if (!tool?.onWheel || this.pending.has(tool)) return false;
+    return this.invoke(tool, "onWheel", () => tool.onWheel?.(e)) === true;
+  }
+
+  dispatchKey(type: "keydown" | "keyup", e: KeyData): void {
+    const tool = this.activeTool;
+    if (!tool) return;
+    if (type === "keydown") {
+      this.deliver(tool, "onKeyDown", () => tool.onKeyDown?.(e));
+    } else if (type === "keyup") {
+      this.deliver(tool, "onKeyUp", () => tool.onKeyUp?.(e));
+    }
+  }
+
+  dispatchColorChange(colors: { primary: string; secondary: string }): void {
+    const tool = this.activeTool;
+    if (!tool) return;
+    this.invoke(tool, "onColorChange", () => tool.onColorChange?.(colors));
+  }
+
+  /**
+   * Call an input hook now, or queue it behind the tool's pending async work
+   * so the tool sees its input in order. Calls with a `mergeKey` (e.g. hover
+   * moves) replace a queued call with the same key instead of piling up.
+   */
+  private deliver(
+    tool: Tool,
+    handler: string,
+    run: () => unknown,
+    mergeKey?: string
   ): void {
-    if (!this.activeTool) return;
+    const work = this.pending.get(tool);
+    if (!work) {
+      this.invoke(tool, handler, run);
+      return;
+    }
+    const last = work.queue[work.queue.length - 1];
+    if (mergeKey && last?.mergeKey === mergeKey) work.queue.pop();
+    work.queue.push({ handler, run, mergeKey });
+  }
+
+  /** Run `run` now, or in order after the tool's queued input. */
+  private deliverStep(tool: Tool, run: () => void): void {
+    const work = this.pending.get(tool);
+    if (work) work.queue.push({ run });
+    else run();
+  }
+
+  /**
+   * Open or close a stroke's undo group. Everything a tool does between
+   * down and up becomes one undo step and a cancelled stroke is rolled
+   * back. The steps go through the tool's queue like its input, so edits of
+   * input held back by async work land in the right stroke; closing waits
+   * for async work the up / cancel hook started.
+   */
+  private deliverGroupStep(tool: Tool, step: "begin" | "end" | "abort"): void {
+    this.deliverStep(tool, () => {
+      if (step === "begin") {
+        this.history?.beginGroup();
+        return;
+      }
+      if (step === "end") this.history?.endGroup();
+      else this.history?.abortGroup();
+      this.notifyChanged();
+    });
+  }
+
+  private notifyChanged(): void {
+    this.changeListeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Run a tool hook under the watchdog and route any error to the listeners.
+   * A tool the watchdog had to stop, or whose hooks keep throwing, is
+   * quarantined so it can't hang or flood again. A returned promise is
+   * tracked as pending work; its rejection is handled the same way.
+   */
+  private invoke<T>(tool: Tool, handler: string, fn: () => T): T | undefined {
     try {
-      if (type === "pointerdown") this.activeTool.onPointerDown?.(e);
-      else if (type === "pointermove") this.activeTool.onPointerMove?.(e);
-      else if (type === "pointerup") this.activeTool.onPointerUp?.(e);
+      const result = this.watchdog.run(`${tool.name}.${handler}`, fn);
+      if (isPromiseLike(result)) {
+        this.track(tool, handler, result);
+        return undefined;
+      }
+      this.markProven(tool, handler);
+      return result;
     } catch (err) {
-      console.error(
-        `Tool (${this.activeTool.name}) pointer handler error`,
-        err
+      this.handleError(tool, handler, err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Hold back the tool's input until `promise` settles. Edits made meanwhile
+   * are grouped into the undo step of the input that started the work.
+   */
+  private track(
+    tool: Tool,
+    handler: string,
+    promise: PromiseLike<unknown>
+  ): void {
+    let work = this.pending.get(tool);
+    if (!work) {
+      work = { count: 0, queue: [], timers: new Set() };
+      this.pending.set(tool, work);
+      this.busyListeners.forEach((listener) => listener(tool.name, true));
+    }
+    work.count++;
+    this.history?.beginGroup();
+
+    // A promise that doesn't settle in time is treated like a hung loop.
+    const budgetMs = this.watchdog.asyncBudgetMs;
+    const timer = setTimeout(() => {
+      this.handleError(
+        tool,
+        handler,
+        new WatchdogError(
+          `${tool.name}.${handler} did not finish within ${budgetMs}ms`
+        )
       );
+      this.abandon(tool);
+    }, budgetMs);
+    work.timers.add(timer);
+
+    // Once the work was abandoned, the promise settling changes nothing.
+    const settle = (outcome: () => void) => {
+      clearTimeout(timer);
+      work.timers.delete(timer);
+      if (this.pending.get(tool) !== work) return;
+      work.count--;
+      this.history?.endGroup();
+      outcome();
+      this.drain(tool);
+    };
+    promise.then(
+      () => settle(() => this.markProven(tool, handler)),
+      (err) => settle(() => this.handleError(tool, handler, err))
+    );
+  }
+
+  /**
+   * Give up on a tool's async work: close the undo groups it holds open,
+   * keeping what it drew so far, and drop its queued input. Queued undo
+   * group steps still run so every stroke's group gets closed.
+   */
+  private abandon(tool: Tool): void {
+    const work = this.pending.get(tool);
+    if (!work) return;
+    this.pending.delete(tool);
+    work.timers.forEach((timer) => clearTimeout(timer));
+    for (; work.count > 0; work.count--) this.history?.endGroup();
+    const queue = work.queue;
+    work.queue = [];
+    queue.filter((step) => !step.handler).forEach((step) => step.run());
+    this.busyListeners.forEach((listener) => listener(tool.name, false));
+  }
+
+  /** Deliver queued input once the tool has no async work left. */
+  private drain(tool: Tool): void {
+    const work = this.pending.get(tool);
+    if (!work || work.count > 0) return;
+    while (work.queue.length > 0 && work.count === 0) {
+      const next = work.queue.shift()!;
+      if (next.handler) this.invoke(tool, next.handler, next.run);
+      else next.run();
+    }
+    // A queued hook may have got the tool disabled, abandoning the work.
+    if (work.count === 0 && this.pending.get(tool) === work) {
+      this.pending.delete(tool);
+      this.busyListeners.forEach((listener) => listener(tool.name, false));
     }
   }
 
-  dispatchKey(type: "keydown" | "keyup", e: KeyData): void {
-    if (!this.activeTool) return;
-    try {
-      if (type === "keydown") this.activeTool.onKeyDown?.(e);
-      else if (type === "keyup") this.activeTool.onKeyUp?.(e);
-    } catch (err) {
-      console.error(`Tool (${this.activeTool.name}) key handler error`, err);
+  private setActiveTool(tool: Tool | null): void {
+    this.activeTool = tool;
+    this.activeToolListeners.forEach((listener) => listener(tool));
+  }
+
+  private markProven(tool: Tool, handler: string): void {
+    if (INPUT_HOOKS.has(handler) && typeof tool[handler] === "function") {
+      this.provenTools.add(tool);
     }
   }
+
+  private handleError(tool: Tool, handler: string, err: unknown): void {
+    console.error(`Tool (${tool.name}) ${handler} error`, err);
+    this.toolConsole.addError(tool.name, handler, err);
+    this.errorListeners.forEach((listener) =>
+      listener({ toolName: tool.name, handler, error: err })
+    );
+    this.chargeErrorBudget(tool, handler, err);
+  }
+
+  private chargeErrorBudget(tool: Tool, handler: string, err: unknown): void {
+    // Hooks of an object that was replaced meanwhile don't count.
+    if (this.tools.get(tool.name) !== tool) return;
+    if (err instanceof WatchdogError) {
+      this.quarantine({
+        toolName: tool.name,
+        handler,
+        error: err,
+        errorCount: 1,
+      });
+      return;
+    }
+    const now = performance.now();
+    const times = (this.errorTimes.get(tool.name) ?? []).filter(
+      (t) => now - t < ERROR_WINDOW_MS
+    );
+    times.push(now);
+    this.errorTimes.set(tool.name, times);
+    if (times.length >= ERROR_BUDGET) {
+      this.quarantine({
+        toolName: tool.name,
+        handler,
+        error: err,
+        errorCount: times.length,
+      });
+    }
+  }
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
 }
@@ -5,13 +5,20 @@ export const TOOL_TEMPLATES: ToolTemplates = {
     name: "Stroke",
     description: "Free-hand drawing tool",
     code: `// Stroke Tool – uses global primary color
-return {
+import { primaryColor } from 'std/color';
+
+export default {
   name: 'Stroke',
+  parameters: {
+    strokeWidth: { type: 'number', label: 'Width', min: 1, max: 50, step: 1, default: 5 },
+    strokeCap: { type: 'enum', label: 'Cap', options: ['round', 'butt', 'square'], default: 'round' },
+    simplify: { type: 'boolean', label: 'Simplify', default: true }
+  },
   onPointerDown(e) {
     this.path = new paper.Path({
-      strokeColor: window.globalColors?.primary || '#007acc',
-      strokeWidth: 5,
-      strokeCap: 'round',
+      strokeColor: primaryColor(),
+      strokeWidth: this.params.strokeWidth,
+      strokeCap: this.params.strokeCap,
       strokeJoin: 'round'
     });
     this.path.add(e.point);
@@ -20,7 +27,7 @@ return {
     if (this.path) this.path.add(e.point);
   },
   onPointerUp() {
-    if (this.path) this.path.simplify();
+    if (this.path && this.params.simplify) this.path.simplify();
     this.path = undefined;
   }
 };`,
@@ -30,7 +37,9 @@ return {
     name: "Rectangle",
     description: "Draw rectangles by drag",
     code: `// Rectangle Tool – uses global primary color
-return {
+import { primaryColor } from 'std/color';
+
+export default {
   name: 'Rectangle',
   onPointerDown(e) {
     this.start = e.point;
@@ -41,7 +50,7 @@ return {
     if (this.rectPath) this.rectPath.remove();
     const rectangle = new paper.Rectangle(this.start, e.point);
     this.rectPath = new paper.Path.Rectangle(rectangle);
-    this.rectPath.strokeColor = window.globalColors?.primary || '#007acc';
+    this.rectPath.strokeColor = primaryColor();
     this.rectPath.strokeWidth = 2;
   },
   onPointerUp() {
@@ -55,12 +64,14 @@ return {
     name: "Line",
     description: "Straight line between drag endpoints",
     code: `// Line Tool – uses global secondary color
-return {
+import { secondaryColor } from 'std/color';
+
+export default {
   name: 'Line',
   onPointerDown(e) {
     this.start = e.point;
     this.path = new paper.Path({
-      strokeColor: window.globalColors?.secondary || '#ff6b6b',
+      strokeColor: secondaryColor(),
       strokeWidth: 3
     });
     this.path.add(this.start);
@@ -81,7 +92,9 @@ return {
     name: "Circle",
     description: "Draw circles by drag",
     code: `// Circle Tool – uses global secondary color
-return {
+import { secondaryColor } from 'std/color';
+
+export default {
   name: 'Circle',
   onPointerDown(e) {
     this.start = e.point;
@@ -92,7 +105,7 @@ return {
     if (this.circlePath) this.circlePath.remove();
     const radius = this.start.getDistance(e.point);
     this.circlePath = new paper.Path.Circle(this.start, radius);
-    this.circlePath.strokeColor = window.globalColors?.secondary || '#ff6b6b';
+    this.circlePath.strokeColor = secondaryColor();
     this.circlePath.strokeWidth = 2;
   },
   onPointerUp() {
@@ -106,9 +119,17 @@ return {
     name: "Pixel Brush",
     description: "Raster brush for free-hand drawing with pressure sensitivity",
     code: `// Pixel Brush Tool – leverages OverlayCanvas helper for raster drawing & automatic vectorisation
-return {
+import { primaryColor } from 'std/color';
+
+export default {
   name: 'Pixel Brush',
   
+  // Pressure sensitivity settings (editable in the Properties panel)
+  parameters: {
+    maxBrushSize: { type: 'number', label: 'Max size', min: 1, max: 64, step: 1, default: 16 },
+    minBrushSize: { type: 'number', label: 'Min size', min: 1, max: 64, step: 1, default: 2 }
+  },
+  
   onActivate() {
     console.log('Pixel Brush activated');
     // Create a raster overlay at 25% resolution with custom Potrace options
@@ -124,10 +145,6 @@ return {
       posterizationalgorithm: 0
     });
     this.ctx = this.overlay.create();
-    
-    // Pressure sensitivity settings
-    this.maxBrushSize = 16; // Maximum brush size at full pressure
-    this.minBrushSize = 2;  // Minimum brush size at no pressure
   },
   
   onDeactivate() {
@@ -144,11 +161,12 @@ return {
     const overlayPoint = this.overlay.paperToOverlay(e.point);
     
     // Calculate pressure-sensitive brush size
-    const pressure = Math.max(0, Math.min(1, e.pressure || 0.5)); // Clamp between 0-1, default to 0.5
-    const brushSize = this.minBrushSize + (this.maxBrushSize - this.minBrushSize) * pressure;
+    const pressure = e.raw.pressure > 0 ? e.pressure : 0.5; // Curve-mapped; 0.5 for devices without pressure
+    const { minBrushSize, maxBrushSize } = this.params;
+    const brushSize = minBrushSize + (maxBrushSize - minBrushSize) * pressure;
     
     // Set brush properties
-    this.ctx.strokeStyle = window.globalColors?.primary || '#007acc';
+    this.ctx.strokeStyle = primaryColor();
     this.ctx.fillStyle = this.ctx.strokeStyle;
     this.ctx.lineWidth = brushSize;
     this.ctx.lineCap = 'round';
@@ -166,10 +184,11 @@ return {
     if (!this.isDrawing || !this.ctx) return;
     
     const overlayPoint = this.overlay.paperToOverlay(e.point);
-    const pressure = Math.max(0, Math.min(1, e.pressure || 0.5)); // Clamp between 0-1, default to 0.5
+    const pressure = e.raw.pressure > 0 ? e.pressure : 0.5; // Curve-mapped; 0.5 for devices without pressure
     
     // Calculate brush size based on pressure
-    const brushSize = this.minBrushSize + (this.maxBrushSize - this.minBrushSize) * pressure;
+    const { minBrushSize, maxBrushSize } = this.params;
+    const brushSize = minBrushSize + (maxBrushSize - minBrushSize) * pressure;
     
     // Update brush size
     this.ctx.lineWidth = brushSize;
@@ -198,6 +217,19 @@ return {
     description:
       "Empty template showing all available tool functions and global references",
     code: `// Template Tool – shows all available functions and global references
+//
+// The editor knows these types: hover a name for its docs, press
+// Ctrl+Space for completions. Type errors are underlined before Apply.
+//
+// Tools are ES modules: the default export is the tool. Helpers can be
+// imported from the standard library or from your saved tools:
+//   import { snapToGrid, snapAngle } from 'std/snap';
+//   import { distance, rectFromDrag } from 'std/geometry';
+//   import { itemAt, itemsInRect } from 'std/hit-test';
+//   import { primaryColor, withAlpha } from 'std/color';
+//   import { createRandom } from 'std/random';   // seeded random numbers
+//   import { myHelper } from 'user:my-helpers';  // exports of a saved tool
+// ('std' alone has all of the std modules.)
 // 
 // Available globals:
 // - window.globalColors.primary    // Current primary color (string)
@@ -207,14 +239,19 @@ return {
 // - paper.Path                    // Vector path creation
 // - paper.Point                   // Point objects
 // - paper.Rectangle               // Rectangle objects
+// - toolSystem.history            // beginGroup()/endGroup() merge edits into one undo step
 //
 // Event object properties:
 // - e.point         // Paper.Point of cursor/touch position
-// - e.pressure      // Pressure value (0-1, mainly for stylus)
+// - e.pressure      // Pressure value (0-1) after the device's pressure curve
 // - e.buttons       // Mouse buttons pressed
 // - e.pointerId     // Unique pointer identifier
 // - e.pointerType   // "mouse", "pen", or "touch"
 // - e.tiltX, e.tiltY // Stylus tilt angles
+// - e.altitude, e.azimuth // Stylus angles in radians (from tilt)
+// - e.raw           // Device values before mapping: { pressure, tiltX, tiltY }
+// - e.timeStamp     // When the sample was taken (performance.now() clock)
+// - e.predicted     // Predicted upcoming samples (pointermove only) for previews
 // - e.native        // Original browser PointerEvent
 //
 // Key event properties:
@@ -223,9 +260,27 @@ return {
 // - e.ctrl, e.shift, e.alt, e.meta // Modifier keys
 // - e.native        // Original browser KeyboardEvent
 
-return {
+export default {
   name: 'Template',
   
+  // Optional settings shown in the Properties panel.
+  // Types: 'number' (min/max/step), 'boolean', 'enum' (options), 'color'.
+  // Read the current values from this.params.
+  parameters: {
+    size: { type: 'number', label: 'Size', min: 1, max: 100, step: 1, default: 10 }
+  },
+  
+  // Called after a parameter was changed in the Properties panel
+  onParamChange(key, value) {
+    // this.params[key] already holds the new value
+  },
+  
+  // Called after Apply with "Hot" reload enabled: the new handlers were
+  // swapped into this object, so state set on \`this\` is still here
+  onHotReload(prevState) {
+    // prevState is a copy of the state before the reload
+  },
+  
   // Called when tool becomes active
   onActivate() {
     // Initialize tool state, create UI elements, etc.
@@ -236,6 +291,16 @@ return {
     // Clean up resources, remove temporary elements, etc.
   },
   
+  // Called when another tool is borrowed while its key is held; this tool
+  // keeps its state and gets onResume when the key is released
+  onSuspend() {
+    // Hide previews that would get in the way
+  },
+  
+  onResume() {
+    // Restore previews hidden in onSuspend
+  },
+  
   // Called when pointer/mouse is pressed down
   onPointerDown(e) {
     // e.point contains the cursor position
@@ -243,10 +308,9 @@ return {
     // Start drawing/interaction here
   },
   
-  // Called when pointer/mouse moves
+  // Called when pointer/mouse moves while pressed
   onPointerMove(e) {
     // Continue drawing/interaction
-    // Only called while pointer is down for most browsers
   },
   
   // Called when pointer/mouse is released
@@ -255,6 +319,30 @@ return {
     // Clean up temporary state
   },
   
+  // Called when the stroke is cancelled (e.g. turned into a pinch gesture);
+  // its edits are rolled back. Without onCancel, onPointerUp is called.
+  onCancel(e) {
+    // Drop temporary state without finishing the shape
+  },
+  
+  // Called when pointer/mouse moves without being pressed
+  onPointerHover(e) {
+    // Draw a preview, e.g. a brush outline at e.point
+  },
+  
+  // Called when the pointer enters / leaves the canvas
+  onPointerEnter(e) {},
+  onPointerLeave(e) {
+    // Remove hover previews
+  },
+  
+  // Called for mouse wheel / trackpad scroll; return true to stop the view
+  // from zooming (Ctrl/Cmd + wheel always zooms)
+  onWheel(e) {
+    // e.deltaX, e.deltaY in pixels, e.point, modifier flags as on key events
+    return false;
+  },
+  
   // Called when keyboard key is pressed
   onKeyDown(e) {
     // Handle keyboard shortcuts
@@ -8,11 +8,41 @@ export interface ToolTemplates {
   [key: string]: ToolTemplate;
 }
 
+/** A tool saved by the user in the local tool library. */
+export interface UserTool extends ToolTemplate {
+  key: string;
+  /** Set for tools imported from a tool package (see tool-package.ts). */
+  author?: string;
+  version?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Size (in project units / CSS px) and background of the document page. */
+export interface PageSettings {
+  width: number;
+  height: number;
+  background: string;
+}
+
 export interface PaperManagerEvent {
   toolChanged: { toolName: string; code: string };
   codeChanged: { code: string };
-  error: { message: string };
+  error: {
+    message: string;
+    /** Where in the editor's code the error was thrown, if known. */
+    location?: import("./tool-factory.js").ToolErrorLocation;
+  };
+  /** A tool kept throwing and was disabled (see ToolSystem.quarantine). */
+  toolQuarantined: {
+    toolName: string;
+    message: string;
+    /** Whether restoreWorkingCode() has older code to fall back to. */
+    canRestore: boolean;
+  };
   projectChanged: {};
+  /** The whole document was replaced (new / open); per-document UI state is stale. */
+  documentReset: {};
 }
 
 export type PaperManagerEventType = keyof PaperManagerEvent;
@@ -43,7 +73,10 @@ declare global {
 
     // New in-house systems
     toolSystem: import("./tool-system.js").ToolSystem;
-    inputSystem: any;
+    inputSystem: import("./input-manager.js").InputManager;
+    historyManager: import("./history-manager.js").HistoryManager;
+    toolLibrary: import("./tool-library.js").ToolLibrary;
+    keymap: import("./keymap.js").Keymap;
 
     // Overlay canvas utility
     OverlayCanvas: typeof import("./overlay-canvas.js").OverlayCanvas;
@@ -0,0 +1,265 @@
+/*
+ * ViewportController – pan and zoom of the Paper.js view.
+ *
+ * Lives in the input layer: InputManager offers every pointer / wheel event
+ * here first and only forwards events that were not used for navigation, so
+ * tools never see them.
+ *
+ * - Mouse wheel zooms around the cursor (trackpad pinch arrives as ctrl+wheel);
+ *   InputManager only passes on wheel events the active tool didn't consume
+ * - Space + drag and middle-button drag pan the view
+ * - Two-finger touch pinches and pans
+ */
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 64;
+
+interface PinchState {
+  ids: [number, number];
+  distance: number;
+  center: { x: number; y: number };
+}
+
+export class ViewportController {
+  private canvas: HTMLCanvasElement;
+  /** Called when a pointer that a tool was using is taken over for navigation. */
+  private cancelPointer: (pointerId: number) => void;
+
+  private spaceHeld = false;
+  /** Pointer currently dragging the view (space / middle button). */
+  private panPointer: { id: number; x: number; y: number } | null = null;
+  /** Active touch points in view coordinates. */
+  private touches: Map<number, { x: number; y: number }> = new Map();
+  private pinch: PinchState | null = null;
+  /** Pointers whose events are swallowed until they are lifted. */
+  private navPointers: Set<number> = new Set();
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    cancelPointer: (pointerId: number) => void
+  ) {
+    this.canvas = canvas;
+    this.cancelPointer = cancelPointer;
+  }
+
+  /* ---------- Public view operations ---------- */
+
+  getZoom(): number {
+    return window.view?.zoom ?? 1;
+  }
+
+  /** Set the zoom level, keeping `viewPoint` (view coordinates) fixed. */
+  zoomAt(zoom: number, viewPoint?: { x: number; y: number }): void {
+    const view = window.view;
+    if (!view) return;
+
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    const anchor = viewPoint
+      ? new window.paper.Point(viewPoint.x, viewPoint.y)
+      : view.projectToView(view.center);
+    const before = view.viewToProject(anchor);
+    view.zoom = next;
+    const after = view.viewToProject(anchor);
+    view.center = view.center.add(before.subtract(after));
+    this.changed();
+  }
+
+  /** Move the view by a delta given in view (screen) pixels. */
+  panBy(dx: number, dy: number): void {
+    const view = window.view;
+    if (!view) return;
+    view.center = view.center.subtract(
+      new window.paper.Point(dx, dy).divide(view.zoom)
+    );
+    this.changed();
+  }
+
+  /** Zoom so `bounds` (project coordinates) fills the view with a margin. */
+  zoomToBounds(bounds: any, margin: number = 24): void {
+    const view = window.view;
+    if (!view || !bounds || bounds.width <= 0 || bounds.height <= 0) return;
+
+    const size = view.viewSize;
+    const zoom = Math.min(
+      (size.width - margin * 2) / bounds.width,
+      (size.height - margin * 2) / bounds.height
+    );
+    view.zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    view.center = bounds.center;
+    this.changed();
+  }
+
+  /** Fit the page (or all artwork for documents without a page). */
+  zoomToFit(): void {
+    const bounds =
+      window.paperManager?.getPageBounds?.() ?? this.getContentBounds();
+    if (bounds) this.zoomToBounds(bounds);
+  }
+
+  /** Reset to 100% without moving the view centre. */
+  zoomToActual(): void {
+    this.zoomAt(1);
+  }
+
+  /** Fit the selected items; returns false if nothing is selected. */
+  zoomToSelection(): boolean {
+    const items: any[] = window.project?.selectedItems ?? [];
+    if (items.length === 0) return false;
+    const bounds = items
+      .map((item) => item.strokeBounds)
+      .reduce((acc, b) => acc.unite(b));
+    this.zoomToBounds(bounds);
+    return true;
+  }
+
+  /* ---------- Input hooks called by InputManager ---------- */
+
+  setSpaceHeld(held: boolean): void {
+    this.spaceHeld = held;
+    if (!this.panPointer) this.canvas.style.cursor = held ? "grab" : "";
+  }
+
+  isSpaceHeld(): boolean {
+    return this.spaceHeld;
+  }
+
+  /**
+   * Offer a pointer event for navigation. Returns true if the event was
+   * consumed and must not reach the active tool.
+   */
+  handlePointer(ev: PointerEvent): boolean {
+    const point = this.toViewPoint(ev);
+    const type = ev.type;
+
+    if (ev.pointerType === "touch") {
+      if (type === "pointerdown") this.touches.set(ev.pointerId, point);
+      else if (type === "pointermove" && this.touches.has(ev.pointerId)) {
+        this.touches.set(ev.pointerId, point);
+      }
+    }
+
+    if (type === "pointerdown") {
+      if (ev.pointerType === "touch" && this.touches.size >= 2) {
+        this.startPinch();
+        return true;
+      }
+      const middle = ev.button === 1;
+      if (middle || (this.spaceHeld && ev.button === 0)) {
+        this.panPointer = { id: ev.pointerId, ...point };
+        this.navPointers.add(ev.pointerId);
+        this.canvas.style.cursor = "grabbing";
+        return true;
+      }
+      return false;
+    }
+
+    if (!this.navPointers.has(ev.pointerId)) {
+      if (type === "pointerup" || type === "pointercancel") {
+        this.touches.delete(ev.pointerId);
+      }
+      return false;
+    }
+
+    if (type === "pointermove") {
+      if (this.panPointer?.id === ev.pointerId) {
+        this.panBy(point.x - this.panPointer.x, point.y - this.panPointer.y);
+        this.panPointer.x = point.x;
+        this.panPointer.y = point.y;
+      } else if (this.pinch?.ids.includes(ev.pointerId)) {
+        this.updatePinch();
+      }
+      return true;
+    }
+
+    // pointerup / pointercancel of a navigation pointer
+    this.navPointers.delete(ev.pointerId);
+    this.touches.delete(ev.pointerId);
+    if (this.panPointer?.id === ev.pointerId) {
+      this.panPointer = null;
+      this.canvas.style.cursor = this.spaceHeld ? "grab" : "";
+    }
+    if (this.pinch?.ids.includes(ev.pointerId)) this.pinch = null;
+    return true;
+  }
+
+  /** Zoom around the cursor for a wheel / trackpad event. */
+  handleWheel(ev: WheelEvent): void {
+    ev.preventDefault();
+    const point = this.toViewPoint(ev);
+
+    // Normalise line / page deltas to pixels.
+    const unit =
+      ev.deltaMode === 1 ? 16 : ev.deltaMode === 2 ? this.canvas.height : 1;
+    const delta = ev.deltaY * unit;
+
+    // Pinch-zoom on trackpads arrives as ctrl+wheel with small deltas.
+    const sensitivity = ev.ctrlKey ? 0.01 : 0.0015;
+    this.zoomAt(this.getZoom() * Math.exp(-delta * sensitivity), point);
+  }
+
+  /* ---------- Internals ---------- */
+
+  private startPinch(): void {
+    const ids = [...this.touches.keys()].slice(0, 2) as [number, number];
+    // Any finger that was drawing becomes a navigation finger; cancel the
+    // stroke it started so the gesture leaves no marks.
+    ids.forEach((id) => {
+      if (!this.navPointers.has(id)) this.cancelPointer(id);
+      this.navPointers.add(id);
+    });
+    this.pinch = {
+      ids,
+      distance: this.pinchDistance(ids),
+      center: this.pinchCenter(ids),
+    };
+  }
+
+  private updatePinch(): void {
+    const pinch = this.pinch;
+    if (!pinch) return;
+    const distance = this.pinchDistance(pinch.ids);
+    const center = this.pinchCenter(pinch.ids);
+
+    this.panBy(center.x - pinch.center.x, center.y - pinch.center.y);
+    if (pinch.distance > 0 && distance > 0) {
+      this.zoomAt(this.getZoom() * (distance / pinch.distance), center);
+    }
+    pinch.distance = distance;
+    pinch.center = center;
+  }
+
+  private pinchDistance([a, b]: [number, number]): number {
+    const p = this.touches.get(a);
+    const q = this.touches.get(b);
+    return p && q ? Math.hypot(p.x - q.x, p.y - q.y) : 0;
+  }
+
+  private pinchCenter([a, b]: [number, number]): { x: number; y: number } {
+    const p = this.touches.get(a) ?? { x: 0, y: 0 };
+    const q = this.touches.get(b) ?? p;
+    return { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+  }
+
+  private getContentBounds(): any | null {
+    let bounds: any = null;
+    (window.project?.layers ?? []).forEach((layer: any) => {
+      if (layer.children.length === 0) return;
+      bounds = bounds ? bounds.unite(layer.strokeBounds) : layer.strokeBounds;
+    });
+    return bounds;
+  }
+
+  private toViewPoint(ev: MouseEvent): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return { x: ev.clientX - rect.left, y: ev.clientY - rect.top };
+  }
+
+  private changed(): void {
+    window.view?.draw();
+    window.dispatchEvent(
+      new CustomEvent("viewportChanged", {
+        detail: { zoom: this.getZoom() },
+      })
+    );
+  }
+}
@@ -0,0 +1,370 @@
+/*
+ * Watchdog – protects the editor from runaway tool code.
+ *
+ * User code runs on the main thread, so an endless loop can't be interrupted
+ * from the outside. Instead, tool code is instrumented before it is compiled:
+ * every loop checks in with the watchdog, which throws a WatchdogError once the
+ * current factory call / handler has used up its time budget. The error then
+ * unwinds through the tool like any other exception.
+ */
+
+/** Name of the guard function injected into instrumented tool code. */
+export const WATCHDOG_GUARD = "__canvasCodeWatchdog";
+
+export class WatchdogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WatchdogError";
+  }
+}
+
+export class Watchdog {
+  /** Time budget for one tool factory call or handler, in milliseconds. */
+  budgetMs = 1000;
+  /**
+   * Time the promise of an async handler gets to settle, in milliseconds.
+   * One that never settles would hold back the tool's input for good.
+   */
+  asyncBudgetMs = 10000;
+
+  private deadline = 0;
+  private label = "";
+  private checks = 0;
+
+  /**
+   * Run `fn` with a fresh time budget. Loops inside instrumented code that run
+   * past the budget throw a WatchdogError.
+   */
+  run<T>(label: string, fn: () => T): T {
+    const prevDeadline = this.deadline;
+    const prevLabel = this.label;
+    this.deadline = performance.now() + this.budgetMs;
+    this.label = label;
+    try {
+      return fn();
+    } finally {
+      this.deadline = prevDeadline;
+      this.label = prevLabel;
+    }
+  }
+
+  /**
+   * Guard called from instrumented loops. Always returns true so it can be
+   * and-ed into loop conditions.
+   */
+  guard = (): true => {
+    // Only look at the clock every 1024 iterations to keep loops fast.
+    if (++this.checks & 0x3ff) return true;
+
+    const now = performance.now();
+    if (this.deadline === 0) {
+      // Code running outside run() (timers, async continuations): arm lazily
+      // and disarm on the next macrotask, which a stuck loop never reaches.
+      this.deadline = now + this.budgetMs;
+      this.label = "async callback";
+      setTimeout(() => {
+        this.deadline = 0;
+        this.label = "";
+      }, 0);
+      return true;
+    }
+
+    if (now > this.deadline) {
+      const label = this.label || "tool code";
+      throw new WatchdogError(
+        `${label} ran longer than ${this.budgetMs}ms (possible infinite loop)`
+      );
+    }
+    return true;
+  };
+}
+
+/* ---------- Loop instrumentation ---------- */
+
+const KEYWORDS_BEFORE_REGEX = new Set([
+  "return",
+  "typeof",
+  "case",
+  "do",
+  "else",
+  "in",
+  "of",
+  "new",
+  "delete",
+  "void",
+  "throw",
+  "instanceof",
+  "yield",
+  "await",
+]);
+
+/**
+ * Insert watchdog checks into every `while`, `do…while` and `for` loop of a
+ * piece of JavaScript. Checks are added on the same line so line numbers in
+ * error messages still match the original code.
+ *
+ * - `while (cond)`           → `while (guard() && (cond))`
+ * - `for (a; cond; b)`       → `for (a; guard() && (cond); b)`
+ * - `for (x of y) { … }`     → `for (x of y) { guard(); … }`
+ */
+export function instrumentLoops(
+  code: string,
+  guardName: string = WATCHDOG_GUARD
+): string {
+  const edits: Array<{ at: number; text: string }> = [];
+  const scanner = new Scanner(code);
+
+  while (!scanner.done()) {
+    const word = scanner.nextKeywordCandidate();
+    if (word === null) break;
+    if (word.text !== "while" && word.text !== "for") continue;
+
+    let pos = scanner.skipTrivia(word.end);
+    if (word.text === "for" && code.startsWith("await", pos)) {
+      pos = scanner.skipTrivia(pos + 5);
+    }
+    if (code[pos] !== "(") continue;
+
+    const close = scanner.findClosing(pos);
+    if (close < 0) break;
+
+    if (word.text === "while") {
+      edits.push({ at: pos + 1, text: `${guardName}() && (` });
+      edits.push({ at: close, text: ")" });
+    } else {
+      const semis = scanner.topLevelSemicolons(pos + 1, close);
+      if (semis.length === 2) {
+        const [first, second] = semis;
+        const cond = code.slice(first + 1, second);
+        if (cond.trim() === "") {
+          edits.push({ at: first + 1, text: ` ${guardName}()` });
+        } else {
+          edits.push({ at: first + 1, text: ` ${guardName}() && (` });
+          edits.push({ at: second, text: ")" });
+        }
+      } else {
+        // for…in / for…of – guard the body if it is a block.
+        const body = scanner.skipTrivia(close + 1);
+        if (code[body] === "{") {
+          edits.push({ at: body + 1, text: ` ${guardName}();` });
+        }
+      }
+    }
+    // Continue scanning inside the header so nested loops are found too.
+    scanner.seek(pos + 1);
+  }
+
+  edits.sort((a, b) => b.at - a.at);
+  let result = code;
+  for (const edit of edits) {
+    result = result.slice(0, edit.at) + edit.text + result.slice(edit.at);
+  }
+  return result;
+}
+
+/**
+ * Minimal JavaScript scanner that knows enough about strings, template
+ * literals, comments and regular expressions to find real keywords (loops
+ * here, module statements in tool-modules.ts).
+ */
+export class Scanner {
+  private code: string;
+  private pos = 0;
+  /** Last significant character or word, used to tell regex from division. */
+  private prev = "";
+
+  constructor(code: string) {
+    this.code = code;
+  }
+
+  done(): boolean {
+    return this.pos >= this.code.length;
+  }
+
+  seek(pos: number): void {
+    this.pos = pos;
+    this.prev = "(";
+  }
+
+  /** Advance to the next identifier; returns null at end of input. */
+  nextKeywordCandidate(): { text: string; end: number } | null {
+    const code = this.code;
+    while (this.pos < code.length) {
+      const ch = code[this.pos];
+
+      if (this.skipNonCode()) continue;
+
+      if (/[A-Za-z_$]/.test(ch)) {
+        const start = this.pos;
+        while (this.pos < code.length && /[\w$]/.test(code[this.pos])) {
+          this.pos++;
+        }
+        const text = code.slice(start, this.pos);
+        const isProperty = this.prev === ".";
+        this.prev = text;
+        if (!isProperty) return { text, end: this.pos };
+        continue;
+      }
+
+      if (!/\s/.test(ch)) this.prev = ch;
+      this.pos++;
+    }
+    return null;
+  }
+
+  /** Skip whitespace and comments starting at `pos`. */
+  skipTrivia(pos: number): number {
+    const code = this.code;
+    while (pos < code.length) {
+      if (/\s/.test(code[pos])) pos++;
+      else if (code.startsWith("//", pos)) {
+        const nl = code.indexOf("\n", pos);
+        pos = nl < 0 ? code.length : nl + 1;
+      } else if (code.startsWith("/*", pos)) {
+        const end = code.indexOf("*/", pos + 2);
+        pos = end < 0 ? code.length : end + 2;
+      } else break;
+    }
+    return pos;
+  }
+
+  /** Index of the bracket closing the one at `open`, or -1. */
+  findClosing(open: number): number {
+    const saved = this.pos;
+    const savedPrev = this.prev;
+    this.pos = open + 1;
+    this.prev = "(";
+    let depth = 1;
+    let result = -1;
+    while (this.pos < this.code.length) {
+      if (this.skipNonCode()) continue;
+      const ch = this.code[this.pos];
+      if (ch === "(" || ch === "[" || ch === "{") depth++;
+      else if (ch === ")" || ch === "]" || ch === "}") {
+        depth--;
+        if (depth === 0) {
+          result = this.pos;
+          break;
+        }
+      }
+      if (!/\s/.test(ch)) this.prev = ch;
+      this.pos++;
+    }
+    this.pos = saved;
+    this.prev = savedPrev;
+    return result;
+  }
+
+  /** Positions of `;` at bracket depth zero between `from` and `to`. */
+  topLevelSemicolons(from: number, to: number): number[] {
+    const saved = this.pos;
+    const savedPrev = this.prev;
+    this.pos = from;
+    this.prev = "(";
+    const result: number[] = [];
+    let depth = 0;
+    while (this.pos < to) {
+      if (this.skipNonCode()) continue;
+      const ch = this.code[this.pos];
+      if (ch === "(" || ch === "[" || ch === "{") depth++;
+      else if (ch === ")" || ch === "]" || ch === "}") depth--;
+      else if (ch === ";" && depth === 0) result.push(this.pos);
+      if (!/\s/.test(ch)) this.prev = ch;
+      this.pos++;
+    }
+    this.pos = saved;
+    this.prev = savedPrev;
+    return result;
+  }
+
+  /**
+   * If the cursor is on a comment, string, template literal or regex literal,
+   * move past it and return true.
+   */
+  private skipNonCode(): boolean {
+    const code = this.code;
+    const ch = code[this.pos];
+
+    if (ch === "/" && code[this.pos + 1] === "/") {
+      const nl = code.indexOf("\n", this.pos);
+      this.pos = nl < 0 ? code.length : nl + 1;
+      return true;
+    }
+    if (ch === "/" && code[this.pos + 1] === "*") {
+      const end = code.indexOf("*/", this.pos + 2);
+      this.pos = end < 0 ? code.length : end + 2;
+      return true;
+    }
+    if (ch === '"' || ch === "'") {
+      this.pos = this.skipString(this.pos, ch);
+      this.prev = "a";
+      return true;
+    }
+    if (ch === "`") {
+      this.pos = this.skipTemplate(this.pos);
+      this.prev = "a";
+      return true;
+    }
+    if (ch === "/" && this.regexAllowed()) {
+      this.pos = this.skipRegex(this.pos);
+      this.prev = "a";
+      return true;
+    }
+    return false;
+  }
+
+  private regexAllowed(): boolean {
+    const prev = this.prev;
+    if (prev === "") return true;
+    if (/^[\w$]+$/.test(prev)) return KEYWORDS_BEFORE_REGEX.has(prev);
+    return prev !== ")" && prev !== "]" && prev !== "}";
+  }
+
+  private skipString(pos: number, quote: string): number {
+    const code = this.code;
+    pos++;
+    while (pos < code.length && code[pos] !== quote) {
+      if (code[pos] === "\\") pos++;
+      else if (code[pos] === "\n") break;
+      pos++;
+    }
+    return pos + 1;
+  }
+
+  private skipTemplate(pos: number): number {
+    const code = this.code;
+    pos++;
+    while (pos < code.length && code[pos] !== "`") {
+      if (code[pos] === "\\") {
+        pos += 2;
+        continue;
+      }
+      if (code[pos] === "$" && code[pos + 1] === "{") {
+        const close = this.findClosing(pos + 1);
+        if (close < 0) return code.length;
+        pos = close + 1;
+        continue;
+      }
+      pos++;
+    }
+    return pos + 1;
+  }
+
+  private skipRegex(pos: number): number {
+    const code = this.code;
+    let inClass = false;
+    pos++;
+    while (pos < code.length) {
+      const ch = code[pos];
+      if (ch === "\\") pos++;
+      else if (ch === "[") inClass = true;
+      else if (ch === "]") inClass = false;
+      else if (ch === "/" && !inClass) break;
+      else if (ch === "\n") break;
+      pos++;
+    }
+    pos++;
+    while (pos < code.length && /[a-z]/i.test(code[pos])) pos++;
+    return pos;
+  }
+}
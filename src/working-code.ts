@@ -0,0 +1,26 @@
+/*
+ * WorkingCode – the last code of each tool (by tool name) that handled input
+ * without throwing, to fall back to when newer code gets quarantined.
+ */
+import type { ToolSystem } from "./tool-system.js";
+
+export class WorkingCode {
+  private code: Map<string, string> = new Map();
+  private toolSystem: ToolSystem;
+
+  constructor(toolSystem: ToolSystem) {
+    this.toolSystem = toolSystem;
+  }
+
+  /**
+   * Keep `code` as the fallback for `toolName` if the registered tool built
+   * from it proved to work. Call this before the tool is replaced.
+   */
+  remember(toolName: string, code: string): void {
+    if (this.toolSystem.hasWorked(toolName)) this.code.set(toolName, code);
+  }
+
+  get(toolName: string): string | undefined {
+    return this.code.get(toolName);
+  }
+}